@@ -0,0 +1,506 @@
+import { randomUUID } from "node:crypto";
+import { appendFileSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import { getSessionDirForCwd } from "../src/core/session/paths";
+import { TERMINAL_REQUEST_TITLE, type TerminalReply, type TerminalRequest } from "../src/pi/extensions/client-terminal";
+import { PERMISSION_REQUEST_TITLE } from "../src/pi/extensions/permission-gate";
+import { ALL_TOOLS, MODE_COMMAND } from "../src/pi/extensions/session-mode";
+import { TITLE_COMMAND } from "../src/pi/extensions/session-title";
+import type { PiCommandWithId, PiEvent } from "../src/pi/types";
+
+/**
+ * A stand-in for `pi --mode rpc` used by the end-to-end tests.
+ *
+ * It keeps a real session file under `PI_CODING_AGENT_DIR` and answers the
+ * `PiCommand` surface with canned data. Prompts are played from the JSON file
+ * named by `FAKE_PI_SCRIPT`: the first turn whose `match` occurs in the prompt
+ * text wins (a turn without `match` matches everything); without a script,
+ * every prompt is answered with `echo: <prompt>`.
+ *
+ * Gated tools in a turn go through the same `extension_ui_request` round trip
+ * as the shipped permission-gate extension. When the client-terminal extension
+ * is passed, bash tool calls and the `bash` command are handed to the adapter
+ * like that extension does. The session-mode extension's command limits the
+ * active tools; a scripted call to any other tool fails as unknown.
+ * `FAKE_PI_COMPACT_MS` makes `compact` take that long, like a real summary.
+ */
+
+type ScriptedToolCall = {
+  name: string;
+  args: Record<string, unknown>;
+  output?: string;
+  /** Images appended to the tool result, like `read` on a picture. */
+  images?: { data: string; mimeType: string }[];
+  isError?: boolean;
+};
+
+type ScriptedTurn = {
+  match?: string;
+  reply?: string;
+  thinking?: string;
+  toolCalls?: ScriptedToolCall[];
+  /** Raw events emitted before the assistant reply. */
+  events?: PiEvent[];
+  /** Pause between events, so tests can cancel or queue mid-turn. */
+  delayMs?: number;
+  /** Exit with code 1 once the turn has started, like a crashing pi. */
+  crash?: boolean;
+  /** Reply with the model, thinking level and toggles instead of `reply`. */
+  reportState?: boolean;
+};
+
+type SessionEntry = { type: string; id: string; parentId: string | null; timestamp: string; [key: string]: unknown };
+
+const MODELS = [
+  { provider: "fake", id: "alpha", name: "Fake Alpha", reasoning: false, contextWindow: 100000, maxTokens: 4096 },
+  { provider: "fake", id: "beta", name: "Fake Beta", reasoning: true, contextWindow: 200000, maxTokens: 8192 },
+];
+const THINKING_LEVELS = ["off", "minimal", "low", "medium", "high"];
+const GATED_TOOLS = new Set(["bash", "edit", "write", "delete"]);
+/** Like pi's `--no-session`: entries are kept in memory only. */
+const EPHEMERAL = process.argv.includes("--no-session");
+const CLIENT_TERMINAL = process.argv.some((arg) => arg.endsWith("client-terminal.ts"));
+
+const COMPACT_MS = Number(process.env.FAKE_PI_COMPACT_MS ?? 0);
+
+const script: ScriptedTurn[] = process.env.FAKE_PI_SCRIPT
+  ? (JSON.parse(readFileSync(process.env.FAKE_PI_SCRIPT, "utf8")) as ScriptedTurn[])
+  : [];
+
+const state = {
+  model: MODELS[0],
+  thinkingLevel: "off",
+  steeringMode: "all",
+  followUpMode: "one-at-a-time",
+  autoCompactionEnabled: false,
+  autoRetryEnabled: false,
+  sessionId: "",
+  sessionFile: "",
+  /** The file is written with the first entry, like pi does. */
+  persisted: false,
+  entries: [] as SessionEntry[],
+  /** Null while every tool is active. */
+  activeTools: null as string[] | null,
+};
+
+let running: { aborted: boolean } | null = null;
+const queued: string[] = [];
+// Steering messages are taken before follow-ups, as in pi
+const steering: string[] = [];
+const uiWaiters = new Map<string, (response: Extract<PiCommandWithId, { type: "extension_ui_response" }>) => void>();
+
+function emit(line: unknown): void {
+  process.stdout.write(`${JSON.stringify(line)}\n`);
+}
+
+function respond(command: PiCommandWithId, data?: unknown): void {
+  emit({ type: "response", id: command.id, command: command.type, success: true, data });
+}
+
+function fail(command: PiCommandWithId, error: string): void {
+  emit({ type: "response", id: command.id, command: command.type, success: false, error });
+}
+
+async function newSession(): Promise<void> {
+  const dir = await getSessionDirForCwd(process.cwd());
+  state.sessionId = randomUUID();
+  state.sessionFile = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}_${state.sessionId}.jsonl`);
+  state.entries = [];
+  state.persisted = false;
+}
+
+function persistHeader(): void {
+  if (state.persisted || EPHEMERAL) {
+    return;
+  }
+  const header = { type: "session", id: state.sessionId, cwd: process.cwd(), timestamp: new Date().toISOString() };
+  writeFileSync(state.sessionFile, `${JSON.stringify(header)}\n`);
+  state.persisted = true;
+}
+
+function switchSession(sessionFile: string): void {
+  const [header, ...lines] = readFileSync(sessionFile, "utf8").split("\n").filter((line) => line.trim());
+  state.sessionId = (JSON.parse(header) as { id: string }).id;
+  state.sessionFile = sessionFile;
+  state.persisted = true;
+  state.entries = lines.map((line) => JSON.parse(line) as SessionEntry);
+}
+
+function appendEntry(type: string, fields: Record<string, unknown>): SessionEntry {
+  const entry: SessionEntry = {
+    type,
+    id: randomUUID().slice(0, 8),
+    parentId: state.entries.at(-1)?.id ?? null,
+    timestamp: new Date().toISOString(),
+    ...fields,
+  };
+  state.entries.push(entry);
+  if (EPHEMERAL) {
+    return entry;
+  }
+  persistHeader();
+  appendFileSync(state.sessionFile, `${JSON.stringify(entry)}\n`);
+  return entry;
+}
+
+function messages(): unknown[] {
+  return state.entries.filter((entry) => entry.type === "message").map((entry) => entry.message);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function confirm(toolCallId: string, toolName: string, input: unknown): Promise<boolean> {
+  const id = randomUUID();
+  emit({
+    type: "extension_ui_request",
+    id,
+    method: "confirm",
+    title: PERMISSION_REQUEST_TITLE,
+    message: JSON.stringify({ toolCallId, toolName, input }),
+  });
+  return new Promise((resolve) =>
+    uiWaiters.set(id, (response) => resolve(Boolean(response.confirmed) && !response.cancelled))
+  );
+}
+
+/** The client-terminal extension's round trip; null when the adapter declines. */
+function runInTerminal(request: TerminalRequest): Promise<TerminalReply | null> {
+  const id = randomUUID();
+  emit({ type: "extension_ui_request", id, method: "editor", title: TERMINAL_REQUEST_TITLE, prefill: JSON.stringify(request) });
+  return new Promise((resolve) =>
+    uiWaiters.set(id, (response) =>
+      resolve(response.value !== undefined ? (JSON.parse(response.value) as TerminalReply) : null)
+    )
+  );
+}
+
+async function runBash(command: string, toolCallId?: string): Promise<{ output: string; exitCode: number | null }> {
+  const reply = CLIENT_TERMINAL ? await runInTerminal({ toolCallId, command }) : null;
+  return reply ?? { output: `fake bash: ${command}\n`, exitCode: 0 };
+}
+
+/** One agent run: the prompt's turn, then the messages queued meanwhile, like pi's agent loop. */
+async function runPrompt(text: string): Promise<void> {
+  const run = { aborted: false };
+  running = run;
+  emit({ type: "agent_start" });
+  const messages: unknown[] = [];
+  let next: string | undefined = text;
+  while (next !== undefined) {
+    messages.push(await runTurn(next, run));
+    next = run.aborted ? undefined : steering.shift() ?? queued.shift();
+  }
+  emit({ type: "agent_end", messages });
+  running = null;
+}
+
+async function runTurn(text: string, run: { aborted: boolean }): Promise<unknown> {
+  const turn = script.find((candidate) => !candidate.match || text.includes(candidate.match)) ?? {
+    reply: `echo: ${text}`,
+  };
+  const pause = () => sleep(turn.delayMs ?? 0);
+
+  const userMessage = { role: "user", content: [{ type: "text", text }], timestamp: Date.now() };
+  emit({ type: "message_start", message: userMessage });
+  emit({ type: "message_end", message: userMessage });
+  appendEntry("message", { message: userMessage });
+  emit({ type: "turn_start" });
+  if (turn.crash) {
+    process.exit(1);
+  }
+
+  for (const event of turn.events ?? []) {
+    await pause();
+    emit(event);
+  }
+
+  for (const call of turn.toolCalls ?? []) {
+    await pause();
+    if (run.aborted) {
+      break;
+    }
+    const toolCallId = `call_${randomUUID().slice(0, 8)}`;
+    appendEntry("message", {
+      message: {
+        role: "assistant",
+        content: [{ type: "toolCall", id: toolCallId, name: call.name, arguments: call.args }],
+        stopReason: "toolUse",
+      },
+    });
+    const active = !state.activeTools || state.activeTools.includes(call.name);
+    const allowed = active && (GATED_TOOLS.has(call.name) ? await confirm(toolCallId, call.name, call.args) : true);
+    emit({ type: "tool_execution_start", toolCallId, toolName: call.name, args: call.args });
+    const terminal =
+      allowed && CLIENT_TERMINAL && call.name === "bash" ? await runBash(String(call.args.command), toolCallId) : null;
+    const output = !active ? `Tool ${call.name} not found` : !allowed ? "Blocked by user" : terminal ? terminal.output : call.output ?? "";
+    const images = allowed ? (call.images ?? []).map((image) => ({ type: "image", ...image })) : [];
+    const result = { content: [{ type: "text", text: output }, ...images], details: {} };
+    const isError = !allowed || Boolean(call.isError) || (terminal !== null && terminal.exitCode !== 0);
+    emit({ type: "tool_execution_end", toolCallId, toolName: call.name, result, isError });
+    appendEntry("message", {
+      message: { role: "toolResult", toolCallId, toolName: call.name, content: result.content, isError },
+    });
+  }
+
+  const content: unknown[] = [];
+  if (turn.thinking && !run.aborted) {
+    content.push({ type: "thinking", thinking: turn.thinking });
+    emit({
+      type: "message_update",
+      assistantMessageEvent: { type: "thinking_delta", contentIndex: 0, delta: turn.thinking, partial: null },
+    });
+  }
+  const reply = turn.reportState
+    ? `model=${state.model.provider}/${state.model.id} thinking=${state.thinkingLevel} autoCompaction=${state.autoCompactionEnabled}`
+    : turn.reply;
+  if (reply) {
+    await pause();
+    if (!run.aborted) {
+      content.push({ type: "text", text: reply });
+      emit({
+        type: "message_update",
+        assistantMessageEvent: { type: "text_delta", contentIndex: content.length - 1, delta: reply, partial: null },
+      });
+    }
+  }
+  const assistant = {
+    role: "assistant",
+    content,
+    stopReason: run.aborted ? "aborted" : "stop",
+    provider: state.model.provider,
+    model: state.model.id,
+    usage: { input: 10, output: 5, cacheRead: 0, cacheWrite: 0, totalTokens: 15 },
+  };
+  emit({ type: "message_end", message: assistant });
+  appendEntry("message", { message: assistant });
+  emit({ type: "turn_end", message: assistant, toolResults: [] });
+  return assistant;
+}
+
+function stats(): Record<string, unknown> {
+  const all = messages() as Array<{ role?: string }>;
+  const count = (role: string) => all.filter((message) => message.role === role).length;
+  return {
+    sessionId: state.sessionId,
+    sessionFile: state.sessionFile,
+    userMessages: count("user"),
+    assistantMessages: count("assistant"),
+    toolCalls: count("toolResult"),
+    toolResults: count("toolResult"),
+    totalMessages: all.length,
+    tokens: { input: 10, output: 5, cacheRead: 0, cacheWrite: 0, total: 15 },
+    cost: 0,
+  };
+}
+
+async function handle(command: PiCommandWithId): Promise<void> {
+  switch (command.type) {
+    case "prompt":
+      if (command.message.startsWith(`/${MODE_COMMAND} `)) {
+        // An extension command: handled right away, without a turn
+        const tools = command.message.slice(MODE_COMMAND.length + 2).trim();
+        state.activeTools = tools === ALL_TOOLS ? null : tools.split(",");
+        respond(command);
+        return;
+      }
+      if (command.message.startsWith(`/${TITLE_COMMAND} `)) {
+        appendEntry("session_info", { name: command.message.slice(TITLE_COMMAND.length + 2).trim() });
+        respond(command);
+        return;
+      }
+      if (running) {
+        if (!command.streamingBehavior) {
+          fail(command, "Agent is already processing");
+          return;
+        }
+        (command.streamingBehavior === "steer" ? steering : queued).push(command.message);
+        respond(command);
+        return;
+      }
+      respond(command);
+      void runPrompt(command.message);
+      return;
+    case "steer":
+      steering.push(command.message);
+      respond(command);
+      return;
+    case "follow_up":
+      queued.push(command.message);
+      respond(command);
+      return;
+    case "abort":
+      if (running) {
+        running.aborted = true;
+      }
+      queued.length = 0;
+      steering.length = 0;
+      respond(command);
+      return;
+    case "new_session":
+      await newSession();
+      respond(command, { cancelled: false });
+      return;
+    case "get_state":
+      respond(command, {
+        model: state.model,
+        thinkingLevel: state.thinkingLevel,
+        isStreaming: running !== null,
+        isCompacting: false,
+        steeringMode: state.steeringMode,
+        followUpMode: state.followUpMode,
+        sessionFile: state.sessionFile,
+        sessionId: state.sessionId,
+        autoCompactionEnabled: state.autoCompactionEnabled,
+        autoRetryEnabled: state.autoRetryEnabled,
+        messageCount: messages().length,
+        pendingMessageCount: queued.length + steering.length,
+      });
+      return;
+    case "get_messages":
+      respond(command, { messages: messages() });
+      return;
+    case "get_available_models":
+      respond(command, { models: MODELS });
+      return;
+    case "set_model": {
+      const model = MODELS.find((entry) => entry.provider === command.provider && entry.id === command.modelId);
+      if (!model) {
+        fail(command, `Model not found: ${command.provider}/${command.modelId}`);
+        return;
+      }
+      state.model = model;
+      appendEntry("model_change", { provider: model.provider, modelId: model.id });
+      respond(command, model);
+      return;
+    }
+    case "cycle_model": {
+      state.model = MODELS[(MODELS.indexOf(state.model) + 1) % MODELS.length];
+      respond(command, { model: state.model, thinkingLevel: state.thinkingLevel, isScoped: false });
+      return;
+    }
+    case "set_thinking_level":
+      state.thinkingLevel = command.level;
+      appendEntry("thinking_level_change", { thinkingLevel: command.level });
+      respond(command);
+      return;
+    case "cycle_thinking_level":
+      state.thinkingLevel = THINKING_LEVELS[(THINKING_LEVELS.indexOf(state.thinkingLevel) + 1) % THINKING_LEVELS.length];
+      respond(command, { level: state.thinkingLevel });
+      return;
+    case "set_steering_mode":
+      state.steeringMode = command.mode;
+      respond(command);
+      return;
+    case "set_follow_up_mode":
+      state.followUpMode = command.mode;
+      respond(command);
+      return;
+    case "set_auto_compaction":
+      state.autoCompactionEnabled = command.enabled;
+      respond(command);
+      return;
+    case "set_auto_retry":
+      state.autoRetryEnabled = command.enabled;
+      respond(command);
+      return;
+    case "compact":
+      void sleep(COMPACT_MS).then(() => {
+        appendEntry("compaction", { summary: "Compacted by fake pi", firstKeptEntryId: state.entries[0]?.id ?? null });
+        respond(command, { summary: "Compacted by fake pi", tokensBefore: 15 });
+      });
+      return;
+    case "abort_retry":
+    case "abort_bash":
+      respond(command);
+      return;
+    case "bash":
+      // Not awaited: the terminal round trip needs the next input lines
+      void runBash(command.command).then(({ output, exitCode }) => {
+        // Like pi, the command and its output become part of the conversation
+        appendEntry("message", {
+          message: { role: "bashExecution", command: command.command, output, exitCode, timestamp: Date.now() },
+        });
+        respond(command, { output, exitCode, cancelled: false, truncated: false });
+      });
+      return;
+    case "get_session_stats":
+      respond(command, stats());
+      return;
+    case "export_html": {
+      const outputPath = command.outputPath ?? state.sessionFile.replace(/\.jsonl$/, ".html");
+      writeFileSync(outputPath, "<html><body>fake export</body></html>\n");
+      respond(command, { path: outputPath });
+      return;
+    }
+    case "switch_session":
+      switchSession(command.sessionPath);
+      respond(command, { cancelled: false });
+      return;
+    case "fork": {
+      const index = state.entries.findIndex((entry) => entry.id === command.entryId);
+      const entry = state.entries[index];
+      if (!entry) {
+        fail(command, `Entry not found: ${command.entryId}`);
+        return;
+      }
+      const kept = state.entries.slice(0, index);
+      await newSession();
+      persistHeader();
+      for (const keptEntry of kept) {
+        appendFileSync(state.sessionFile, `${JSON.stringify(keptEntry)}\n`);
+      }
+      state.entries = kept;
+      const message = entry.message as { content?: Array<{ text?: string }> };
+      respond(command, { text: message.content?.[0]?.text ?? "", cancelled: false });
+      return;
+    }
+    case "get_fork_messages":
+      respond(command, {
+        messages: state.entries
+          .filter((entry) => (entry.message as { role?: string } | undefined)?.role === "user")
+          .map((entry) => ({
+            entryId: entry.id,
+            text: (entry.message as { content: Array<{ text: string }> }).content[0]?.text ?? "",
+          })),
+      });
+      return;
+    case "get_last_assistant_text": {
+      const last = [...(messages() as Array<{ role?: string; content?: Array<{ type: string; text?: string }> }>)]
+        .reverse()
+        .find((message) => message.role === "assistant");
+      respond(command, { text: last?.content?.find((block) => block.type === "text")?.text ?? null });
+      return;
+    }
+    case "extension_ui_response": {
+      const waiter = uiWaiters.get(command.id);
+      uiWaiters.delete(command.id);
+      waiter?.(command);
+      return;
+    }
+    default:
+      fail(command, `Unknown command: ${(command as { type: string }).type}`);
+  }
+}
+
+async function main(): Promise<void> {
+  await newSession();
+  const rl = createInterface({ input: process.stdin });
+  for await (const line of rl) {
+    if (!line.trim()) {
+      continue;
+    }
+    let command: PiCommandWithId;
+    try {
+      command = JSON.parse(line) as PiCommandWithId;
+    } catch {
+      emit({ type: "response", command: "parse", success: false, error: "Invalid JSON" });
+      continue;
+    }
+    await handle(command).catch((error: Error) => fail(command, error.message));
+  }
+}
+
+void main();
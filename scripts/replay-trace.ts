@@ -0,0 +1,167 @@
+import { isDeepStrictEqual } from "node:util";
+import type { SessionUpdate } from "@agentclientprotocol/sdk";
+import { createSessionState, refreshSessionConfig } from "../src/core/config/config";
+import { SessionRuntime } from "../src/core/runtime/runtime";
+import { PiProcess } from "../src/pi/process";
+import type { PiCommand, PiCommandWithId, PiEvent, PiLine, PiResponse } from "../src/pi/types";
+import { readTrace, type TraceRecord } from "../src/trace";
+
+/**
+ * Feeds the pi side of a trace recorded with `PI_ACP_TRACE_FILE` back through
+ * `SessionRuntime` and prints the resulting ACP session updates as JSON lines.
+ *
+ *   npm run replay -- <trace.jsonl> [--session <id>] [--compare]
+ *
+ * Requests the runtime makes to pi, starting with the manager's model lookup,
+ * are answered with the responses recorded for the same command type, in
+ * order. `--compare` checks that the replayed updates appear among the
+ * `session/update` notifications in the trace (the recording also holds
+ * updates sent by the session manager), in order per tool call and per update
+ * kind. Session info updates are left out: they are read from the session
+ * file, which has moved on since the recording.
+ */
+
+const USAGE = "usage: npm run replay -- <trace.jsonl> [--session <id>] [--compare]";
+
+class ReplayPi extends PiProcess {
+  private readonly responses = new Map<string, PiResponse[]>();
+
+  constructor(cwd: string, records: TraceRecord[]) {
+    super({ cwd });
+    const sent = new Map<string, string>();
+    for (const record of records) {
+      if (record.direction === "out") {
+        const command = record.message as PiCommandWithId;
+        if (command.id) {
+          sent.set(command.id, command.type);
+        }
+        continue;
+      }
+      const message = record.message as PiLine;
+      if (message.type === "response" && message.id) {
+        const type = sent.get(message.id);
+        if (type) {
+          const queue = this.responses.get(type) ?? [];
+          queue.push(message as PiResponse);
+          this.responses.set(type, queue);
+        }
+      }
+    }
+  }
+
+  override get running(): boolean {
+    return true;
+  }
+
+  override start(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  override send(command: PiCommandWithId): void {
+    process.stderr.write(`replay: runtime sent ${command.type} (ignored)\n`);
+  }
+
+  override async request(command: PiCommand): Promise<PiResponse> {
+    const response = this.responses.get(command.type)?.shift();
+    if (!response) {
+      return { type: "response", command: command.type, success: false, error: "no recorded response" };
+    }
+    return response;
+  }
+
+  override stop(): void {
+    // Nothing to stop
+  }
+}
+
+async function replaySession(sessionId: string, records: TraceRecord[], compare: boolean): Promise<boolean> {
+  const piRecords = records.filter((record) => record.source === "pi" && record.sessionId === sessionId);
+  const cwd = piRecords.find((record) => record.cwd)?.cwd ?? process.cwd();
+  const pi = new ReplayPi(cwd, piRecords);
+  const session = createSessionState(sessionId, cwd, pi);
+
+  const replayed: SessionUpdate[] = [];
+  const runtime = new SessionRuntime({
+    emitUpdate: (id, update) => {
+      replayed.push(update);
+      process.stdout.write(`${JSON.stringify({ sessionId: id, update })}\n`);
+    },
+    getClient: () => null,
+    getClientCapabilities: () => ({}),
+    isSessionFileLive: () => false,
+  });
+
+  // The model list, as the manager loads it, so stats see the context window
+  await refreshSessionConfig(session);
+
+  for (const record of piRecords) {
+    const line = record.message as PiEvent | PiResponse;
+    if (record.direction !== "in" || (line as PiResponse).type === "response") {
+      continue;
+    }
+    runtime.handlePiLine(session, line);
+    // Let async handlers (tool snapshots, stats) settle before the next line
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+
+  if (!compare) {
+    return true;
+  }
+  const recorded = records
+    .filter((record) => record.source === "acp" && record.direction === "out" && record.sessionId === sessionId)
+    .map((record) => record.message as { method?: string; params?: { update?: SessionUpdate } })
+    .filter((message) => message.method === "session/update" && message.params?.update)
+    .map((message) => message.params?.update);
+  // Async reports (stats, snapshots) interleave differently on every run, so
+  // order is only checked within a tool call and within an update kind
+  const streamOf = (update: SessionUpdate | undefined) =>
+    update && "toolCallId" in update ? `${update.sessionUpdate.replace(/_update$/, "")}:${update.toolCallId}` : update?.sessionUpdate;
+  const cursors = new Map<string | undefined, number>();
+  const compared = replayed.filter((update) => update.sessionUpdate !== "session_info_update");
+  for (const [index, update] of compared.entries()) {
+    const stream = streamOf(update);
+    const cursor = cursors.get(stream) ?? 0;
+    const found = recorded.findIndex(
+      (candidate, position) => position >= cursor && streamOf(candidate) === stream && isDeepStrictEqual(candidate, update)
+    );
+    if (found === -1) {
+      process.stderr.write(
+        `replay: ${sessionId}: update #${index} was not recorded after update #${cursor}\n` +
+          `  replayed: ${JSON.stringify(update)}\n` +
+          `  recorded: ${JSON.stringify(recorded.slice(cursor).find((candidate) => streamOf(candidate) === stream) ?? null)}\n`
+      );
+      return false;
+    }
+    cursors.set(stream, found + 1);
+  }
+  process.stderr.write(`replay: ${sessionId}: ${compared.length} updates match the recording\n`);
+  return true;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const compare = args.includes("--compare");
+  const sessionIndex = args.indexOf("--session");
+  const onlySession = sessionIndex >= 0 ? args[sessionIndex + 1] : undefined;
+  const file = args.find((arg, index) => !arg.startsWith("--") && (sessionIndex < 0 || index !== sessionIndex + 1));
+  if (!file || (sessionIndex >= 0 && !onlySession)) {
+    throw new Error(USAGE);
+  }
+
+  const records = readTrace(file);
+  const sessionIds = onlySession
+    ? [onlySession]
+    : [...new Set(records.filter((record) => record.source === "pi").map((record) => record.sessionId))];
+  let ok = true;
+  for (const sessionId of sessionIds) {
+    if (sessionId) {
+      ok = (await replaySession(sessionId, records, compare)) && ok;
+    }
+  }
+  process.exitCode = ok ? 0 : 1;
+}
+
+main().catch((error: Error) => {
+  process.stderr.write(`${error.message}\n`);
+  process.exitCode = 1;
+});
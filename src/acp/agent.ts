@@ -2,6 +2,7 @@ import {
   Agent,
   AgentSideConnection,
   PROTOCOL_VERSION,
+  RequestError,
   type InitializeRequest,
   type InitializeResponse,
   type AuthenticateRequest,
@@ -15,6 +16,8 @@ import {
   type CancelNotification,
   type SetSessionConfigOptionRequest,
   type SetSessionConfigOptionResponse,
+  type SetSessionModeRequest,
+  type SetSessionModeResponse,
   type SetSessionModelRequest,
   type SetSessionModelResponse,
   type ForkSessionRequest,
@@ -25,31 +28,47 @@ import {
   type ResumeSessionResponse,
 } from "@agentclientprotocol/sdk";
 import { SessionManager } from "../core/session/manager";
-import { logInfo } from "../logger";
+import { logDebug, logInfo } from "../logger";
+
+/** Extension request that makes the calling client the controller of a session it observes. */
+export const TAKE_CONTROL_METHOD = "_pi/session/take_control";
+/** Extension request that renames a session: `{ sessionId, title }`. */
+export const SET_TITLE_METHOD = "_pi/session/set_title";
+/** Extension request that searches every session's text: `{ query, cwd?, limit? }`. */
+export const SEARCH_METHOD = "_pi/session/search";
 
 export class AcpAgent implements Agent {
   private readonly connection: AgentSideConnection;
   private readonly sessionManager: SessionManager;
+  private readonly connectionId: string;
 
   constructor(connection: AgentSideConnection, sessionManager: SessionManager) {
     this.connection = connection;
     this.sessionManager = sessionManager;
-    this.sessionManager.setEmitter((params) => {
-      if (params.update.sessionUpdate === "session_info_update") {
-        const { title, updatedAt } = params.update;
-        logInfo(
-          `session_info_update id=${params.sessionId} title=${title ?? ""} updatedAt=${updatedAt ?? ""}`
-        );
-      }
-      if (params.update.sessionUpdate === "available_commands_update") {
-        logInfo(`available_commands_update id=${params.sessionId}`);
-      }
-      void this.connection.sessionUpdate(params);
+    this.connectionId = this.sessionManager.connect({
+      emitUpdate: (params) => {
+        if (params.update.sessionUpdate === "session_info_update") {
+          const { title, updatedAt } = params.update;
+          logDebug("session_info_update", { sessionId: params.sessionId, title, updatedAt });
+        }
+        if (params.update.sessionUpdate === "available_commands_update") {
+          logDebug("available_commands_update", { sessionId: params.sessionId });
+        }
+        void this.connection.sessionUpdate(params);
+      },
+      client: connection,
     });
   }
 
+  /** Called once the transport closes; the connection's sessions stay alive. */
+  dispose(): void {
+    logInfo("connection closed", { connectionId: this.connectionId });
+    this.sessionManager.disconnect(this.connectionId);
+  }
+
   async initialize(params: InitializeRequest): Promise<InitializeResponse> {
     logInfo("initialize");
+    this.sessionManager.setClientCapabilities(this.connectionId, params.clientCapabilities);
     return {
       protocolVersion: params.protocolVersion ?? PROTOCOL_VERSION,
       agentCapabilities: {
@@ -86,14 +105,15 @@ export class AcpAgent implements Agent {
     if (!params?.cwd) {
       throw new Error("Missing required param: cwd");
     }
-    logInfo(`session/new cwd=${params.cwd}`);
-    const { sessionId, models, configOptions } = await this.sessionManager.createSession(
+    logInfo("session/new", { cwd: params.cwd });
+    const { sessionId, modes, models, configOptions } = await this.sessionManager.createSession(
+      this.connectionId,
       params.cwd,
       params.mcpServers ?? []
     );
     return {
       sessionId,
-      modes: null,
+      modes,
       models,
       configOptions: configOptions ?? [],
     };
@@ -103,65 +123,108 @@ export class AcpAgent implements Agent {
     if (!params?.sessionId || !params?.cwd) {
       throw new Error("Missing required params: sessionId, cwd");
     }
-    logInfo(`session/load id=${params.sessionId} cwd=${params.cwd}`);
-    const { models, configOptions } = await this.sessionManager.loadSession(
+    logInfo("session/load", { sessionId: params.sessionId, cwd: params.cwd });
+    const { modes, models, configOptions } = await this.sessionManager.loadSession(
+      this.connectionId,
       params.sessionId,
       params.cwd,
       params.mcpServers ?? []
     );
-    return { modes: null, models, configOptions: configOptions ?? [] };
+    return { modes, models, configOptions: configOptions ?? [] };
   }
 
   async prompt(params: PromptRequest): Promise<PromptResponse> {
-    logInfo(`session/prompt id=${params.sessionId} blocks=${params.prompt?.length ?? 0}`);
-    const stopReason = await this.sessionManager.prompt(params.sessionId, params.prompt);
+    logInfo("session/prompt", { sessionId: params.sessionId, blocks: params.prompt?.length ?? 0 });
+    const stopReason = await this.sessionManager.prompt(this.connectionId, params.sessionId, params.prompt);
     return { stopReason };
   }
 
   async cancel(params: CancelNotification): Promise<void> {
-    await this.sessionManager.cancel(params.sessionId);
+    await this.sessionManager.cancel(this.connectionId, params.sessionId);
+  }
+
+  async setSessionMode(params: SetSessionModeRequest): Promise<SetSessionModeResponse> {
+    logInfo("session/set_mode", { sessionId: params.sessionId, mode: params.modeId });
+    await this.sessionManager.setMode(this.connectionId, params.sessionId, params.modeId);
+    return {};
   }
 
   async unstable_setSessionModel(params: SetSessionModelRequest): Promise<SetSessionModelResponse> {
-    await this.sessionManager.setModel(params.sessionId, params.modelId);
+    await this.sessionManager.setModel(this.connectionId, params.sessionId, params.modelId);
     return {};
   }
 
   async unstable_setSessionConfigOption(
     params: SetSessionConfigOptionRequest
   ): Promise<SetSessionConfigOptionResponse> {
-    return await this.sessionManager.setConfigOption(params);
+    return await this.sessionManager.setConfigOption(this.connectionId, params);
   }
 
   async unstable_listSessions(params: ListSessionsRequest): Promise<ListSessionsResponse> {
-    logInfo("session/list");
-    const sessions = await this.sessionManager.listSessions(params);
-    return { sessions };
+    logInfo("session/list", { cwd: params.cwd ?? null, cursor: params.cursor ?? null });
+    return await this.sessionManager.listSessions(params);
   }
 
   async unstable_forkSession(params: ForkSessionRequest): Promise<ForkSessionResponse> {
     if (!params?.sessionId || !params?.cwd) {
       throw new Error("Missing required params: sessionId, cwd");
     }
-    logInfo(`session/fork source=${params.sessionId} cwd=${params.cwd}`);
-    const { sessionId, models, configOptions } = await this.sessionManager.forkSession(
+    logInfo("session/fork", { sessionId: params.sessionId, cwd: params.cwd });
+    const { sessionId, modes, models, configOptions } = await this.sessionManager.forkSession(
+      this.connectionId,
       params.sessionId,
       params.cwd,
       params.mcpServers ?? []
     );
-    return { sessionId, modes: null, models, configOptions: configOptions ?? [] };
+    return { sessionId, modes, models, configOptions: configOptions ?? [] };
   }
 
   async unstable_resumeSession(params: ResumeSessionRequest): Promise<ResumeSessionResponse> {
     if (!params?.sessionId || !params?.cwd) {
       throw new Error("Missing required params: sessionId, cwd");
     }
-    logInfo(`session/resume id=${params.sessionId} cwd=${params.cwd}`);
-    const { models, configOptions } = await this.sessionManager.resumeSession(
+    logInfo("session/resume", { sessionId: params.sessionId, cwd: params.cwd });
+    const { modes, models, configOptions } = await this.sessionManager.resumeSession(
+      this.connectionId,
       params.sessionId,
       params.cwd,
       params.mcpServers ?? []
     );
-    return { modes: null, models, configOptions: configOptions ?? [] };
+    return { modes, models, configOptions: configOptions ?? [] };
+  }
+
+  async extMethod(method: string, params: Record<string, unknown>): Promise<Record<string, unknown>> {
+    switch (method) {
+      case TAKE_CONTROL_METHOD: {
+        const sessionId = requireString(params, "sessionId");
+        logInfo(method, { sessionId });
+        this.sessionManager.takeControl(this.connectionId, sessionId);
+        return {};
+      }
+      case SET_TITLE_METHOD: {
+        const sessionId = requireString(params, "sessionId");
+        logInfo(method, { sessionId });
+        const title = await this.sessionManager.setTitle(this.connectionId, sessionId, requireString(params, "title"));
+        return { title };
+      }
+      case SEARCH_METHOD: {
+        const query = requireString(params, "query");
+        const cwd = typeof params.cwd === "string" ? params.cwd : undefined;
+        const limit = typeof params.limit === "number" ? params.limit : undefined;
+        logInfo(method, { cwd, limit });
+        const results = await this.sessionManager.searchSessions({ query, cwd, limit });
+        return { results };
+      }
+      default:
+        throw RequestError.methodNotFound(method);
+    }
+  }
+}
+
+function requireString(params: Record<string, unknown> | undefined, name: string): string {
+  const value = params?.[name];
+  if (typeof value !== "string") {
+    throw new Error(`Missing required param: ${name}`);
   }
+  return value;
 }
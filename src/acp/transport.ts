@@ -0,0 +1,241 @@
+import { AgentSideConnection, ndJsonStream, type AnyMessage, type Stream } from "@agentclientprotocol/sdk";
+import { randomBytes } from "node:crypto";
+import { chmodSync, existsSync, mkdirSync, unlinkSync, writeFileSync } from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { Readable, Writable } from "node:stream";
+import { ReadableStream, TransformStream, WritableStream } from "node:stream/web";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { SessionManager } from "../core/session/manager";
+import { logDebug, logInfo, logWarn } from "../logger";
+import { traceMessage } from "../trace";
+import { AcpAgent } from "./agent";
+
+export const DEFAULT_SOCKET_PATH = path.join(os.homedir(), ".pi", "pi-acp", "acp.sock");
+/** Where `serve --port` keeps the token it generates when none is configured. */
+export const SERVE_TOKEN_PATH = path.join(os.homedir(), ".pi", "pi-acp", "serve-token");
+
+const REQUIRED_MCP_METHODS = new Set(["session/new", "session/load", "session/resume", "session/fork"]);
+const LOOPBACK_HOST = "127.0.0.1";
+
+/**
+ * Run one ACP client connection against the shared session manager. When the
+ * transport closes, the connection's sessions are detached but keep running.
+ */
+export function attachConnection(sessionManager: SessionManager, stream: Stream): AgentSideConnection {
+  let agent: AcpAgent | undefined;
+  const connection = new AgentSideConnection((conn) => {
+    agent = new AcpAgent(conn, sessionManager);
+    return agent;
+  }, wrapStream(stream));
+  void connection.closed.then(() => agent?.dispose());
+  return connection;
+}
+
+export function stdioStream(): Stream {
+  return ndJsonStream(Writable.toWeb(process.stdout), Readable.toWeb(process.stdin) as ReadableStream<Uint8Array>);
+}
+
+/** Serve ACP as newline-delimited JSON on a Unix domain socket (mode 0600). */
+export async function serveUnixSocket(sessionManager: SessionManager, socketPath = DEFAULT_SOCKET_PATH): Promise<net.Server> {
+  mkdirSync(path.dirname(socketPath), { recursive: true });
+  await removeStaleSocket(socketPath);
+
+  const server = net.createServer((socket) => {
+    logInfo("client connected", { transport: "unix" });
+    socket.on("error", (error) => logWarn(`socket error: ${error.message}`));
+    attachConnection(
+      sessionManager,
+      ndJsonStream(Writable.toWeb(socket), Readable.toWeb(socket) as ReadableStream<Uint8Array>)
+    );
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    // The socket is bound synchronously inside listen(); the umask keeps it
+    // owner-only from the start instead of after a later chmod
+    const umask = process.umask(0o177);
+    try {
+      server.listen(socketPath, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    } finally {
+      process.umask(umask);
+    }
+  });
+  chmodSync(socketPath, 0o600);
+  logInfo(`serving ACP on ${socketPath}`);
+  return server;
+}
+
+/**
+ * Generate a token for `serve --port` and write it to `tokenPath` (mode 0600),
+ * so only clients running as the same user can read it. A new token is made
+ * on every start.
+ */
+export function createServeToken(tokenPath = SERVE_TOKEN_PATH): string {
+  const token = randomBytes(32).toString("base64url");
+  mkdirSync(path.dirname(tokenPath), { recursive: true });
+  writeFileSync(tokenPath, `${token}\n`, { mode: 0o600 });
+  // An existing file keeps its mode
+  chmodSync(tokenPath, 0o600);
+  logInfo(`WebSocket token written to ${tokenPath}`);
+  return token;
+}
+
+/**
+ * Serve ACP over WebSocket on the loopback interface, one JSON-RPC message
+ * per text frame. Browser pages are refused by origin, and clients must send
+ * `token` as a bearer token or `?token=` query parameter.
+ */
+export async function serveWebSocket(
+  sessionManager: SessionManager,
+  options: { port: number; token: string }
+): Promise<WebSocketServer> {
+  const server = new WebSocketServer({
+    host: LOOPBACK_HOST,
+    port: options.port,
+    verifyClient: ({ origin, req }: { origin?: string; req: { url?: string; headers: Record<string, unknown> } }) => {
+      if (origin && !isLoopbackOrigin(origin)) {
+        logWarn(`rejected WebSocket client from origin ${origin}`);
+        return false;
+      }
+      const header = req.headers.authorization;
+      const query = new URL(req.url ?? "/", "http://localhost").searchParams.get("token");
+      return header === `Bearer ${options.token}` || query === options.token;
+    },
+  });
+  server.on("connection", (socket) => {
+    logInfo("client connected", { transport: "websocket" });
+    attachConnection(sessionManager, webSocketStream(socket));
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.once("listening", () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  logInfo(`serving ACP on ws://${LOOPBACK_HOST}:${options.port}`);
+  return server;
+}
+
+/**
+ * Bridge this process's stdio to a running `serve` socket, so editors that
+ * launch agents as subprocesses can share one long-lived adapter.
+ */
+export function connectStdioToSocket(socketPath = DEFAULT_SOCKET_PATH): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(socketPath);
+    socket.once("error", (error) => reject(new Error(`cannot connect to ${socketPath}: ${error.message}`)));
+    socket.once("connect", () => {
+      process.stdin.pipe(socket);
+      socket.pipe(process.stdout);
+    });
+    socket.once("close", () => {
+      process.stdin.unpipe(socket);
+      process.stdin.destroy();
+      resolve();
+    });
+  });
+}
+
+/** Adapt a `ws` socket (server or client side) to an ACP message stream. */
+export function webSocketStream(socket: WebSocket): Stream {
+  let closed = false;
+  const readable = new ReadableStream<AnyMessage>({
+    start(controller) {
+      socket.on("message", (data, isBinary) => {
+        if (isBinary) {
+          logWarn("ignoring binary WebSocket frame");
+          return;
+        }
+        try {
+          controller.enqueue(JSON.parse(data.toString()) as AnyMessage);
+        } catch (error) {
+          logWarn(`invalid WebSocket message: ${(error as Error).message}`);
+        }
+      });
+      socket.on("close", () => {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      });
+      socket.on("error", (error) => logWarn(`WebSocket error: ${error.message}`));
+    },
+  });
+  const writable = new WritableStream<AnyMessage>({
+    write(message) {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    },
+    close() {
+      socket.close();
+    },
+  });
+  return { readable, writable };
+}
+
+function wrapStream(stream: Stream): Stream {
+  const incoming = new TransformStream<AnyMessage, AnyMessage>({
+    transform(message, controller) {
+      traceMessage("acp", "in", message);
+      if (message && typeof message === "object" && "method" in message) {
+        const method = (message as { method?: unknown }).method;
+        if (typeof method === "string") {
+          logDebug(`rpc:${method}`);
+          if (REQUIRED_MCP_METHODS.has(method)) {
+            const params = (message as { params?: Record<string, unknown> | null }).params ?? {};
+            const mcpServers = (params as { mcpServers?: unknown }).mcpServers;
+            if (!Array.isArray(mcpServers)) {
+              (params as { mcpServers: unknown[] }).mcpServers = [];
+            }
+            (message as { params: Record<string, unknown> }).params = params;
+          }
+        }
+      }
+      controller.enqueue(message);
+    },
+  });
+  const outgoing = new TransformStream<AnyMessage, AnyMessage>({
+    transform(message, controller) {
+      traceMessage("acp", "out", message);
+      controller.enqueue(message);
+    },
+  });
+  void outgoing.readable.pipeTo(stream.writable).catch(() => undefined);
+  return {
+    readable: stream.readable.pipeThrough(incoming),
+    writable: outgoing.writable,
+  };
+}
+
+function isLoopbackOrigin(origin: string): boolean {
+  try {
+    const { hostname } = new URL(origin);
+    return hostname === "localhost" || hostname === LOOPBACK_HOST || hostname === "[::1]";
+  } catch {
+    return false;
+  }
+}
+
+async function removeStaleSocket(socketPath: string): Promise<void> {
+  if (!existsSync(socketPath)) {
+    return;
+  }
+  const inUse = await new Promise<boolean>((resolve) => {
+    const probe = net.connect(socketPath);
+    probe.once("connect", () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once("error", () => resolve(false));
+  });
+  if (inUse) {
+    throw new Error(`pi-acp is already serving on ${socketPath}`);
+  }
+  unlinkSync(socketPath);
+}
@@ -1,18 +1,31 @@
 import { randomUUID } from "node:crypto";
 import type { SessionUpdate, ContentBlock, ToolKind } from "@agentclientprotocol/sdk";
 import { formatThinkingLevel, refreshSessionConfig, resolveModelId } from "../config/config";
+import { loadRetentionPolicy } from "../config/profiles";
 import { THINKING_LEVELS, THINKING_LEVELS_WITH_XHIGH, XHIGH_MODELS } from "../config/consts";
+import { applyRetention, formatRetentionReport } from "../session/retention";
+import { setSessionTitle } from "../session/title";
 import type { SessionState } from "../session/types";
 import { fetchUrl, searchWeb } from "../tools/web-tools";
 import { normalizeThinkingLevelInput, parseOnOff } from "./helpers";
 import { formatBashResult, formatSessionStats, resolveForkEntryId, type BashResult, type SessionStats } from "./format";
-import { handleSessionsCommand, handleLoadCommand } from "./slash";
+import {
+  handleArchiveCommand,
+  handleDeleteCommand,
+  handleFindCommand,
+  handleLoadCommand,
+  handleSessionsCommand,
+  handleTagCommand,
+} from "./slash";
 
 type EmitUpdate = (sessionId: string, update: SessionUpdate) => void;
 
 export type CommandAction = (session: SessionState, args: string, prompt?: ContentBlock[]) => Promise<void>;
 
-export function createCommandActions(emitUpdate: EmitUpdate): Record<string, CommandAction> {
+export function createCommandActions(
+  emitUpdate: EmitUpdate,
+  isSessionFileLive: (filePath: string) => boolean
+): Record<string, CommandAction> {
   const sendText = (session: SessionState, text: string) =>
     emitUpdate(session.id, { sessionUpdate: "agent_message_chunk", content: { type: "text", text } });
 
@@ -137,12 +150,17 @@ export function createCommandActions(emitUpdate: EmitUpdate): Record<string, Com
         sendText(session, "Usage: /bash <command>");
         return;
       }
+      // pi records the command and its output in the conversation; with a
+      // client terminal its extension runs the command there
+      session.bashInTerminal = false;
       const response = await session.pi.request({ type: "bash", command: args });
       if (!response.success) {
         sendText(session, response.error ?? "Bash command failed.");
         return;
       }
-      sendText(session, formatBashResult(response.data as BashResult));
+      if (!session.bashInTerminal) {
+        sendText(session, formatBashResult(response.data as BashResult));
+      }
     },
     steer: async (session, args) => {
       if (!args) {
@@ -223,12 +241,52 @@ export function createCommandActions(emitUpdate: EmitUpdate): Record<string, Com
         emitTool(session, "search", "search", `Search failed: ${(error as Error).message}`, "failed");
       }
     },
-    sessions: async (session) => {
-      await handleSessionsCommand(session, emitUpdate);
+    title: async (session, args) => {
+      if (!args) {
+        sendText(session, `Usage: /title <text>${session.title ? `\n\nCurrent title: ${session.title}` : ""}`);
+        return;
+      }
+      const title = await setSessionTitle(session, args, emitUpdate);
+      sendText(session, `Session renamed to "${title}".`);
+    },
+    sessions: async (session, args) => {
+      await handleSessionsCommand(session, args, emitUpdate);
     },
     load: async (session, args) => {
       await handleLoadCommand(session, args, emitUpdate);
     },
+    find: async (session, args) => {
+      await handleFindCommand(session, args, emitUpdate);
+    },
+    tag: async (session, args) => {
+      await handleTagCommand(session, args, emitUpdate);
+    },
+    archive: async (session, args) => {
+      await handleArchiveCommand(session, args, true, emitUpdate);
+    },
+    unarchive: async (session, args) => {
+      await handleArchiveCommand(session, args, false, emitUpdate);
+    },
+    delete: async (session, args) => {
+      await handleDeleteCommand(session, args, isSessionFileLive, emitUpdate);
+    },
+    gc: async (session, args) => {
+      const dryRun = args === "--dry-run";
+      if (args && !dryRun) {
+        sendText(session, "Usage: /gc [--dry-run]");
+        return;
+      }
+      const { runAtStartup: _runAtStartup, ...limits } = await loadRetentionPolicy();
+      if (Object.keys(limits).length === 0) {
+        sendText(
+          session,
+          "No retention policy is configured. Add a `retention` section to `~/.pi/pi-acp/config.json` (`maxAgeDays`, `maxTotalBytes`, `maxProjectBytes`, `maxProjectSessions`)."
+        );
+        return;
+      }
+      const report = await applyRetention(limits, { isLive: isSessionFileLive, dryRun });
+      sendText(session, formatRetentionReport(report));
+    },
   };
 
   async function handleToggle(
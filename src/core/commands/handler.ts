@@ -1,13 +1,20 @@
 import type { ContentBlock, SessionUpdate } from "@agentclientprotocol/sdk";
+import { waitForTurnEnd } from "../session/prompts";
 import type { SessionState } from "../session/types";
 import { extractCommandText, parseCommand } from "./parser";
 import { createCommandActions, type CommandAction } from "./actions";
 
+/** Commands that exist to reach the running turn, so they never wait for it. */
+const TURN_COMMANDS = new Set(["steer", "queue"]);
+
 export class SessionCommandHandler {
   private readonly actions: Record<string, CommandAction>;
 
-  constructor(emitUpdate: (sessionId: string, update: SessionUpdate) => void) {
-    this.actions = createCommandActions(emitUpdate);
+  constructor(
+    emitUpdate: (sessionId: string, update: SessionUpdate) => void,
+    isSessionFileLive: (filePath: string) => boolean
+  ) {
+    this.actions = createCommandActions(emitUpdate, isSessionFileLive);
   }
 
   async handleSlashCommand(session: SessionState, prompt: ContentBlock[]): Promise<boolean> {
@@ -23,7 +30,25 @@ export class SessionCommandHandler {
     if (!action) {
       return false;
     }
-    await action(session, parsed.args, prompt);
-    return true;
+    // Counted so the process pool leaves pi alone until the command is done
+    session.commandsInFlight += 1;
+    try {
+      if (TURN_COMMANDS.has(parsed.command)) {
+        await action(session, parsed.args, prompt);
+        return true;
+      }
+      // One command at a time, and never in the middle of a turn
+      const previous = session.commandQueue;
+      const run = (async () => {
+        await previous;
+        await waitForTurnEnd(session);
+        await action(session, parsed.args, prompt);
+      })();
+      session.commandQueue = run.catch(() => undefined);
+      await run;
+      return true;
+    } finally {
+      session.commandsInFlight -= 1;
+    }
   }
 }
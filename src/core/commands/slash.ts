@@ -1,25 +1,46 @@
-import { scanSessions } from "../session/metadata";
+import { normalizeTag, setSessionArchived, setSessionTags, trashSession } from "../session/manage";
+import { scanSessions, type ListedSession } from "../session/metadata";
+import { sessionSearch } from "../session/search";
 import type { SessionUpdate } from "@agentclientprotocol/sdk";
 import type { SessionState } from "../session/types";
 
 type EmitUpdate = (sessionId: string, update: SessionUpdate) => void;
 
-export async function handleSessionsCommand(session: SessionState, emitUpdate: EmitUpdate): Promise<void> {
-  const { sessions } = await scanSessions({ cwd: null });
+export async function handleSessionsCommand(session: SessionState, args: string, emitUpdate: EmitUpdate): Promise<void> {
+  let archived: "hide" | "only" = "hide";
+  let tag: string | null = null;
+  for (const word of args.split(/\s+/).filter(Boolean)) {
+    if (word === "archived") {
+      archived = "only";
+    } else {
+      tag = normalizeTag(word);
+      if (!tag) {
+        emitUpdate(session.id, {
+          sessionUpdate: "agent_message_chunk",
+          content: { type: "text", text: "Usage: `/sessions [archived] [#tag]`" },
+        });
+        return;
+      }
+    }
+  }
+  const { sessions } = await scanSessions({ cwd: null, tag, archived });
+  const sortedSessions = sessions.slice(0, 20);
+  // `/load`, `/archive`, `/unarchive` and `/delete` number rows from this listing
+  session.lastListing = { archived, filePaths: sortedSessions.map((s) => s.filePath) };
 
   if (sessions.length === 0) {
     emitUpdate(session.id, {
       sessionUpdate: "agent_message_chunk",
-      content: { type: "text", text: "No sessions found." },
+      content: { type: "text", text: archived === "only" || tag ? "No matching sessions found." : "No sessions found." },
     });
     return;
   }
 
-  const sortedSessions = sessions
-    .sort((a, b) => b.modifiedMs - a.modifiedMs)
-    .slice(0, 20);
-
-  const header = [`## Sessions`, `Showing last ${sortedSessions.length} session${sortedSessions.length === 1 ? "" : "s"}:\n`].join("\n");
+  const filters = [archived === "only" ? "archived" : null, tag ? `tagged \`#${tag}\`` : null].filter(Boolean).join(", ");
+  const header = [
+    `## Sessions${filters ? ` (${filters})` : ""}`,
+    `Showing last ${sortedSessions.length} session${sortedSessions.length === 1 ? "" : "s"}:\n`,
+  ].join("\n");
   const tableHeader = `| # | ID | Updated | Title |\n| --- | --- | --- | --- |`;
   const items = sortedSessions.map((s, idx) => {
     const title = s.title?.trim() || "(no title)";
@@ -27,10 +48,13 @@ export async function handleSessionsCommand(session: SessionState, emitUpdate: E
     const num = idx + 1;
     const shortId = s.sessionId.slice(0, 8);
     const titleTruncated = truncate(title, 70);
-    return `| ${num} | \`${shortId}\` | ${date} | ${titleTruncated} |`;
+    const tags = s.tags.map((entry) => ` \`#${entry}\``).join("");
+    return `| ${num} | \`${shortId}\` | ${date} | ${titleTruncated}${tags} |`;
   }).join("\n");
 
-  const footer = `\n**Tip:** Use \`/load <num>\` to load a session (e.g., \`/load 1\`).`;
+  const footer = archived === "only"
+    ? `\n**Tip:** Use \`/unarchive <num>\` to restore a session (e.g., \`/unarchive 1\`).`
+    : `\n**Tip:** Use \`/load <num>\` to load a session (e.g., \`/load 1\`).`;
 
   emitUpdate(session.id, {
     sessionUpdate: "agent_message_chunk",
@@ -48,34 +72,15 @@ export async function handleLoadCommand(session: SessionState, args: string, emi
     return;
   }
 
-  const { sessions } = await scanSessions({ cwd: null });
-  const sortedSessions = sessions.sort((a, b) => b.modifiedMs - a.modifiedMs);
-
-  let targetSession: {
-    sessionId: string;
-    title?: string | null;
-    cwd?: string;
-    filePath: string;
-    updatedAt?: string;
-    messageCount?: number;
-  } | null = null;
-
-  const num = parseInt(trimmed, 10);
-  if (!isNaN(num) && num >= 1 && num <= sortedSessions.length) {
-    targetSession = sortedSessions[num - 1];
-  } else {
-    targetSession = sessions.find((s) =>
-      s.sessionId.startsWith(trimmed) || s.sessionId === trimmed
-    ) ?? null;
-  }
-
-  if (!targetSession) {
+  const lookup = await findSession(session, trimmed, "hide");
+  if ("error" in lookup) {
     emitUpdate(session.id, {
       sessionUpdate: "agent_message_chunk",
-      content: { type: "text", text: `Session not found: \`${trimmed}\`\n\nUse \`/sessions\` to see available sessions.` },
+      content: { type: "text", text: `${lookup.error}\n\nUse \`/sessions\` to see available sessions.` },
     });
     return;
   }
+  const targetSession = lookup.target;
 
   const title = targetSession.title?.trim() || "(no title)";
   const sessionPath = targetSession.filePath ?? "";
@@ -105,6 +110,7 @@ export async function handleLoadCommand(session: SessionState, args: string, emi
     });
     return;
   }
+  session.sessionFile = sessionPath;
 
   const updated = targetSession.updatedAt ? formatDate(targetSession.updatedAt) : "(unknown)";
   const messageCount = typeof targetSession.messageCount === "number" ? targetSession.messageCount : 0;
@@ -122,6 +128,199 @@ export async function handleLoadCommand(session: SessionState, args: string, emi
   });
 }
 
+export async function handleFindCommand(session: SessionState, args: string, emitUpdate: EmitUpdate): Promise<void> {
+  const query = args.trim();
+  if (!query) {
+    emitUpdate(session.id, {
+      sessionUpdate: "agent_message_chunk",
+      content: { type: "text", text: "Usage: `/find <words>`\n\nSearches message text, commands and file paths in every session." },
+    });
+    return;
+  }
+
+  const results = await sessionSearch.search(query);
+  if (results.length === 0) {
+    emitUpdate(session.id, {
+      sessionUpdate: "agent_message_chunk",
+      content: { type: "text", text: `No sessions match \`${query}\`.` },
+    });
+    return;
+  }
+
+  const header = `## Sessions matching \`${query}\``;
+  const items = results.map((result, idx) => {
+    const title = truncate(result.title?.trim() || "(no title)", 70);
+    const date = result.updatedAt ? formatDate(result.updatedAt) : "(unknown)";
+    const snippet = truncate(result.snippet.replace(/`/g, "'"), 200);
+    return [
+      `${idx + 1}. **${title}** · \`${result.sessionId.slice(0, 8)}\` · ${date} · ${result.cwd}`,
+      `   ${result.matchedIn}: ${snippet}`,
+      `   \`${result.loadCommand}\``,
+    ].join("\n");
+  }).join("\n");
+
+  emitUpdate(session.id, {
+    sessionUpdate: "agent_message_chunk",
+    content: { type: "text", text: `${header}\n\n${items}` },
+  });
+}
+
+export async function handleTagCommand(session: SessionState, args: string, emitUpdate: EmitUpdate): Promise<void> {
+  const sendText = (text: string) =>
+    emitUpdate(session.id, { sessionUpdate: "agent_message_chunk", content: { type: "text", text } });
+  const current = await findCurrentSession(session);
+  if (!current) {
+    sendText("This session has nothing saved yet; send a prompt first.");
+    return;
+  }
+  const words = args.split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    sendText(
+      current.tags.length > 0
+        ? `Tags: ${formatTags(current.tags)}`
+        : "No tags. Usage: `/tag <tag>...` adds tags, `/tag -<tag>` removes one."
+    );
+    return;
+  }
+
+  const tags = new Set(current.tags);
+  for (const word of words) {
+    const remove = word.startsWith("-");
+    const tag = normalizeTag(remove || word.startsWith("+") ? word.slice(1) : word);
+    if (!tag) {
+      sendText(`Invalid tag: \`${word}\`. Tags may contain letters, digits, \`_\`, \`.\`, \`/\` and \`-\`.`);
+      return;
+    }
+    if (remove) {
+      tags.delete(tag);
+    } else {
+      tags.add(tag);
+    }
+  }
+  await setSessionTags(current, [...tags]);
+  sendText(tags.size > 0 ? `Tags: ${formatTags([...tags].sort())}` : "All tags removed.");
+}
+
+export async function handleArchiveCommand(
+  session: SessionState,
+  args: string,
+  archived: boolean,
+  emitUpdate: EmitUpdate
+): Promise<void> {
+  const sendText = (text: string) =>
+    emitUpdate(session.id, { sessionUpdate: "agent_message_chunk", content: { type: "text", text } });
+  const ref = args.trim();
+  if (!ref && !archived) {
+    sendText("Usage: `/unarchive <number|id>`\n\nUse `/sessions archived` to see archived sessions.");
+    return;
+  }
+  let target: ListedSession | null;
+  if (ref) {
+    // Numbers refer to the listing the session would be picked from
+    const lookup = await findSession(session, ref, archived ? "hide" : "only");
+    if ("error" in lookup) {
+      sendText(lookup.error);
+      return;
+    }
+    target = lookup.target;
+  } else {
+    target = await findCurrentSession(session);
+  }
+  if (!target) {
+    sendText("This session has nothing saved yet; send a prompt first.");
+    return;
+  }
+  if (target.archived === archived) {
+    sendText(`Session \`${target.sessionId.slice(0, 8)}\` is already ${archived ? "archived" : "not archived"}.`);
+    return;
+  }
+  await setSessionArchived(target, archived);
+  sendText(
+    archived
+      ? `Archived session \`${target.sessionId.slice(0, 8)}\`. It is hidden from \`/sessions\` and session lists; \`/sessions archived\` shows it.`
+      : `Restored session \`${target.sessionId.slice(0, 8)}\` to \`/sessions\`.`
+  );
+}
+
+export async function handleDeleteCommand(
+  session: SessionState,
+  args: string,
+  isSessionFileLive: (filePath: string) => boolean,
+  emitUpdate: EmitUpdate
+): Promise<void> {
+  const sendText = (text: string) =>
+    emitUpdate(session.id, { sessionUpdate: "agent_message_chunk", content: { type: "text", text } });
+  const ref = args.trim();
+  if (!ref) {
+    sendText("Usage: `/delete <number|id>`\n\nUse `/sessions` to see available sessions.");
+    return;
+  }
+  const lookup = await findSession(session, ref, "hide");
+  if ("error" in lookup) {
+    sendText(lookup.error);
+    return;
+  }
+  const target = lookup.target;
+  if (target.filePath === session.sessionFile) {
+    sendText("The current session can't be deleted; switch to another session first.");
+    return;
+  }
+  // Its pi would keep appending to the moved file
+  if (isSessionFileLive(target.filePath)) {
+    sendText(`Session \`${target.sessionId.slice(0, 8)}\` is open in another session; close it before deleting it.`);
+    return;
+  }
+  const trashPath = await trashSession(target);
+  sendText(`Deleted session \`${target.sessionId.slice(0, 8)}\` (${truncate(target.title?.trim() || "(no title)", 80)}).\nMoved to ${trashPath}`);
+}
+
+/**
+ * A session by its number in the listing `/sessions` last showed (`numbered`
+ * says whether that must be `/sessions archived`), or by id or a prefix that
+ * only one session id starts with.
+ */
+async function findSession(
+  session: SessionState,
+  ref: string,
+  numbered: "hide" | "only"
+): Promise<{ target: ListedSession } | { error: string }> {
+  const { sessions } = await scanSessions({ cwd: null });
+  if (/^\d+$/.test(ref)) {
+    const listCommand = numbered === "only" ? "/sessions archived" : "/sessions";
+    const listing = session.lastListing;
+    if (!listing || listing.archived !== numbered) {
+      return { error: `Session numbers refer to the rows \`${listCommand}\` shows; run it first or use a session id.` };
+    }
+    const filePath = listing.filePaths[parseInt(ref, 10) - 1];
+    if (!filePath) {
+      return { error: `There is no session ${ref} in the last \`${listCommand}\` listing.` };
+    }
+    const target = sessions.find((s) => s.filePath === filePath);
+    return target ? { target } : { error: `Session ${ref} no longer exists.` };
+  }
+  const exact = sessions.find((s) => s.sessionId === ref);
+  if (exact) {
+    return { target: exact };
+  }
+  const matches = sessions.filter((s) => s.sessionId.startsWith(ref));
+  if (matches.length > 1) {
+    return { error: `\`${ref}\` matches ${matches.length} sessions; give more of the id.` };
+  }
+  return matches.length === 1 ? { target: matches[0] } : { error: `Session not found: \`${ref}\`` };
+}
+
+async function findCurrentSession(session: SessionState): Promise<ListedSession | null> {
+  if (!session.sessionFile) {
+    return null;
+  }
+  const { sessions } = await scanSessions({ cwd: null });
+  return sessions.find((s) => s.filePath === session.sessionFile) ?? null;
+}
+
+function formatTags(tags: string[]): string {
+  return tags.map((tag) => `\`#${tag}\``).join(" ");
+}
+
 function truncate(str: string, max: number): string {
   if (str.length <= max) return str;
   return str.slice(0, max - 1).trimEnd() + "…";
@@ -1,9 +1,10 @@
 import { logWarn } from "../../logger";
 import { PiProcess } from "../../pi/process";
 import { PiResponse } from "../../pi/types";
-import type { SessionConfigOption } from "@agentclientprotocol/sdk";
+import type { SessionConfigOption, SessionModelState } from "@agentclientprotocol/sdk";
+import type { SessionTranscript } from "../session/transcript";
 import { SessionConfigResult, SessionState, PiModel } from "../session/types";
-import { THINKING_LEVELS_WITH_XHIGH, XHIGH_MODELS, THINKING_LEVELS } from "./consts";
+import { DEFAULT_SESSION_MODE, THINKING_LEVELS_WITH_XHIGH, XHIGH_MODELS, THINKING_LEVELS } from "./consts";
 
 export function createSessionState(
   id: string,
@@ -17,8 +18,51 @@ export function createSessionState(
     pi,
     toolCallSnapshots: new Map(),
     toolCallInputs: new Map(),
+    queuedPrompts: [],
+    promptQueueBehavior: "followUp",
+    turnWaiters: [],
+    commandsInFlight: 0,
     modelMap: new Map(),
+    permissionPolicy: new Map(),
+    terminals: new Map(),
+    observerIds: new Set(),
+    modeId: DEFAULT_SESSION_MODE,
     mcpServers,
+    metrics: {
+      createdAt: Date.now(),
+      prompts: 0,
+      totalPromptMs: 0,
+      toolCalls: 0,
+      toolErrors: 0,
+      tokens: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+      cost: 0,
+    },
+  };
+}
+
+/**
+ * Populate model state from a session transcript for a session whose pi
+ * process hasn't been spawned yet. Only the transcript's model is known until
+ * pi reports the full list.
+ */
+export function seedSessionConfig(session: SessionState, transcript: SessionTranscript): SessionModelState | null {
+  if (transcript.thinkingLevel) {
+    session.thinkingLevel = transcript.thinkingLevel;
+  }
+  if (!transcript.model) {
+    return null;
+  }
+  const model: PiModel = {
+    id: transcript.model.modelId,
+    provider: transcript.model.provider,
+    name: transcript.model.modelId,
+  };
+  const modelId = encodeModelId(model);
+  session.modelMap.set(modelId, model);
+  session.currentModelId = modelId;
+  return {
+    currentModelId: modelId,
+    availableModels: [{ modelId, name: model.name, description: `${model.provider}/${model.id}` }],
   };
 }
 
@@ -53,6 +97,9 @@ export async function refreshSessionConfig(session: SessionState): Promise<Sessi
       : undefined;
 
   session.currentModelId = currentModelId;
+  if (stateData?.sessionFile) {
+    session.sessionFile = stateData.sessionFile;
+  }
   session.thinkingLevel = stateData?.thinkingLevel ?? session.thinkingLevel ?? "off";
   session.steeringMode = stateData?.steeringMode ?? session.steeringMode ?? "all";
   session.followUpMode = stateData?.followUpMode ?? session.followUpMode ?? "one-at-a-time";
@@ -156,6 +203,19 @@ function buildConfigOptions(session: SessionState, model: PiModel | null): Sessi
     ],
   });
 
+  options.push({
+    type: "select",
+    id: "queued_prompts",
+    name: "Prompts During a Turn",
+    description: "How to deliver prompts sent while the agent is working",
+    category: "other",
+    currentValue: session.promptQueueBehavior,
+    options: [
+      { value: "followUp", name: "Queue as follow-up" },
+      { value: "steer", name: "Steer the current turn" },
+    ],
+  });
+
   options.push({
     type: "select",
     id: "auto_compaction",
@@ -207,6 +267,7 @@ function extractStateData(
   response: PiResponse | null
 ): {
   model: PiModel | null;
+  sessionFile?: string;
   thinkingLevel?: string;
   steeringMode?: "all" | "one-at-a-time";
   followUpMode?: "all" | "one-at-a-time";
@@ -218,6 +279,7 @@ function extractStateData(
   }
   const data = response.data as {
     model?: PiModel | null;
+    sessionFile?: unknown;
     thinkingLevel?: string;
     steeringMode?: "all" | "one-at-a-time";
     followUpMode?: "all" | "one-at-a-time";
@@ -226,6 +288,7 @@ function extractStateData(
   };
   return {
     model: data.model ?? null,
+    sessionFile: typeof data.sessionFile === "string" ? data.sessionFile : undefined,
     thinkingLevel: data.thinkingLevel,
     steeringMode: data.steeringMode,
     followUpMode: data.followUpMode,
@@ -9,16 +9,85 @@ export const THINKING_LEVELS_WITH_XHIGH = [
 ] as const;
 export const XHIGH_MODELS = new Set(["gpt-5.1-codex-max", "gpt-5.2", "gpt-5.2-codex"]);
 
+export type SessionModeId = "ask" | "plan" | "code";
+
+/**
+ * `tools` lists the pi tools a mode leaves active (pi's built-in tool names);
+ * null keeps every tool pi has, extension and MCP tools included. `askTools`
+ * need permission on every call, as a remembered "Always allow" is ignored.
+ */
+export const SESSION_MODES: readonly {
+  id: SessionModeId;
+  name: string;
+  description: string;
+  tools: readonly string[] | null;
+  askTools?: readonly string[];
+}[] = [
+  {
+    id: "ask",
+    name: "Ask",
+    description: "Read-only: answer questions without running commands or editing files",
+    tools: ["read", "grep", "find", "ls"],
+  },
+  {
+    id: "plan",
+    name: "Plan",
+    description: "Investigate and plan without editing files; every command needs permission",
+    tools: ["read", "bash", "grep", "find", "ls"],
+    // A command can edit files too, so the user vets each one
+    askTools: ["bash"],
+  },
+  {
+    id: "code",
+    name: "Code",
+    description: "Full access: run commands and edit files",
+    tools: null,
+  },
+];
+
+export const DEFAULT_SESSION_MODE: SessionModeId = "code";
+
 export const DEFAULT_COMMANDS = [
   {
     name: "sessions",
     description: "Show last 20 sessions",
+    input: { hint: "archived, #tag (optional)" },
   },
   {
     name: "load",
     description: "Load a session by number",
     input: { hint: "<number>" },
   },
+  {
+    name: "find",
+    description: "Search all sessions",
+    input: { hint: "words to search for" },
+  },
+  {
+    name: "tag",
+    description: "Show, add or remove (-tag) this session's tags",
+    input: { hint: "tags (optional)" },
+  },
+  {
+    name: "archive",
+    description: "Hide a session from /sessions and session lists",
+    input: { hint: "<number|id> (default: this session)" },
+  },
+  {
+    name: "unarchive",
+    description: "Restore an archived session",
+    input: { hint: "<number|id> from /sessions archived" },
+  },
+  {
+    name: "delete",
+    description: "Move a session to the trash",
+    input: { hint: "<number|id>" },
+  },
+  {
+    name: "gc",
+    description: "Apply the session retention policy",
+    input: { hint: "--dry-run (optional)" },
+  },
   {
     name: "compact",
     description: "Compact conversation",
@@ -61,6 +130,12 @@ export const DEFAULT_COMMANDS = [
     input: { hint: "entryId (optional)" },
   },
   { name: "new", description: "Start a fresh session" },
+  { name: "control", description: "Take control of a session shared with other clients" },
+  {
+    name: "title",
+    description: "Rename the session",
+    input: { hint: "new title" },
+  },
   {
     name: "fetch",
     description: "Fetch a URL",
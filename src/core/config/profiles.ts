@@ -0,0 +1,302 @@
+import { readFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { LOG_LEVELS, type LoggerOptions } from "../../logger";
+import type { RetentionPolicy } from "../session/retention";
+import { expandHome, normalizeCwd } from "../session/utils";
+import { THINKING_LEVELS_WITH_XHIGH } from "./consts";
+
+export const GLOBAL_CONFIG_PATH = path.join(os.homedir(), ".pi", "pi-acp", "config.json");
+export const PROJECT_CONFIG_NAME = path.join(".pi", "pi-acp.json");
+
+export type PiProfile = {
+  /** pi executable, defaults to `pi` on PATH. */
+  executable?: string;
+  /** Extra arguments appended after `--mode rpc`. */
+  args?: string[];
+  env?: Record<string, string>;
+  /** Default model for new sessions, as `provider:model-id`. */
+  model?: string;
+  /**
+   * Model that names new sessions after their first turn, as `provider:model-id`.
+   * Unset, sessions keep the title taken from their first prompt.
+   */
+  titleModel?: string;
+  thinkingLevel?: (typeof THINKING_LEVELS_WITH_XHIGH)[number];
+  steeringMode?: "all" | "one-at-a-time";
+  followUpMode?: "all" | "one-at-a-time";
+  autoCompaction?: boolean;
+  autoRetry?: boolean;
+  timeouts?: {
+    requestMs?: number;
+    switchSessionMs?: number;
+  };
+  /** Directories (and their subdirectories) this profile applies to. */
+  paths?: string[];
+};
+
+export type LoggingConfig = Pick<LoggerOptions, "level" | "file" | "maxFileBytes" | "maxFiles">;
+
+export type AdapterConfig = {
+  defaultProfile?: string;
+  profiles: Record<string, PiProfile>;
+  /** Adapter-wide; only read from the global config. */
+  logging?: LoggingConfig;
+  /** Adapter-wide session file retention for `/gc`; only read from the global config. */
+  retention?: RetentionPolicy;
+};
+
+export type ResolvedProfile = PiProfile & { name: string | null };
+
+const MODES = ["all", "one-at-a-time"];
+
+/**
+ * Resolve the pi profile for a working directory.
+ *
+ * The global config is read first; the nearest `.pi/pi-acp.json` at or above
+ * `cwd` overrides it profile by profile. A profile whose `paths` contain `cwd`
+ * wins (longest path first), then the project's `defaultProfile`, then the
+ * global one.
+ */
+export async function resolveProfile(cwd: string): Promise<ResolvedProfile> {
+  const global = await readConfigFile(GLOBAL_CONFIG_PATH);
+  const projectPath = await findProjectConfig(cwd);
+  const project = projectPath ? await readConfigFile(projectPath) : null;
+
+  const profiles = { ...global?.profiles, ...project?.profiles };
+  const normalizedCwd = normalizeCwd(cwd) ?? cwd;
+
+  let bestMatch: { name: string; length: number } | null = null;
+  for (const [name, profile] of Object.entries(profiles)) {
+    for (const entry of profile.paths ?? []) {
+      const root = normalizeCwd(expandHome(entry));
+      if (!root || (normalizedCwd !== root && !normalizedCwd.startsWith(`${root}${path.sep}`))) {
+        continue;
+      }
+      if (!bestMatch || root.length > bestMatch.length) {
+        bestMatch = { name, length: root.length };
+      }
+    }
+  }
+
+  const name = bestMatch?.name ?? project?.defaultProfile ?? global?.defaultProfile ?? null;
+  if (!name) {
+    return { name: null };
+  }
+  const profile = profiles[name];
+  if (!profile) {
+    throw new Error(`pi-acp config: unknown profile "${name}"`);
+  }
+  return { ...profile, name };
+}
+
+export async function loadLoggingConfig(): Promise<LoggingConfig> {
+  const global = await readConfigFile(GLOBAL_CONFIG_PATH);
+  return global?.logging ?? {};
+}
+
+export async function loadRetentionPolicy(): Promise<RetentionPolicy> {
+  const global = await readConfigFile(GLOBAL_CONFIG_PATH);
+  return global?.retention ?? {};
+}
+
+async function findProjectConfig(cwd: string): Promise<string | null> {
+  let dir = normalizeCwd(cwd);
+  while (dir) {
+    const candidate = path.join(dir, PROJECT_CONFIG_NAME);
+    try {
+      await readFile(candidate);
+      return candidate;
+    } catch {
+      // Keep walking up
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+  return null;
+}
+
+async function readConfigFile(filePath: string): Promise<AdapterConfig | null> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw new Error(`pi-acp config ${filePath}: ${(error as Error).message}`);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`pi-acp config ${filePath}: invalid JSON (${(error as Error).message})`);
+  }
+  const errors: string[] = [];
+  const config = validateConfig(data, errors);
+  if (errors.length > 0 || !config) {
+    throw new Error(`pi-acp config ${filePath} is invalid:\n- ${errors.join("\n- ")}`);
+  }
+  return config;
+}
+
+function validateConfig(data: unknown, errors: string[]): AdapterConfig | null {
+  if (!isRecord(data)) {
+    errors.push("config must be a JSON object");
+    return null;
+  }
+  for (const key of Object.keys(data)) {
+    if (key !== "defaultProfile" && key !== "profiles" && key !== "logging" && key !== "retention") {
+      errors.push(`unknown key "${key}"`);
+    }
+  }
+  const defaultProfile = data.defaultProfile;
+  if (defaultProfile !== undefined && typeof defaultProfile !== "string") {
+    errors.push(`"defaultProfile" must be a string`);
+  }
+  const profiles: Record<string, PiProfile> = {};
+  if (data.profiles !== undefined) {
+    if (!isRecord(data.profiles)) {
+      errors.push(`"profiles" must be an object`);
+    } else {
+      for (const [name, value] of Object.entries(data.profiles)) {
+        profiles[name] = validateProfile(`profiles.${name}`, value, errors);
+      }
+    }
+  }
+  return {
+    defaultProfile: typeof defaultProfile === "string" ? defaultProfile : undefined,
+    profiles,
+    logging: data.logging !== undefined ? validateLogging(data.logging, errors) : undefined,
+    retention: data.retention !== undefined ? validateRetention(data.retention, errors) : undefined,
+  };
+}
+
+function validateProfile(label: string, value: unknown, errors: string[]): PiProfile {
+  if (!isRecord(value)) {
+    errors.push(`${label} must be an object`);
+    return {};
+  }
+  const check = (key: string, valid: boolean, expected: string) => {
+    if (value[key] !== undefined && !valid) {
+      errors.push(`${label}.${key} must be ${expected}`);
+    }
+  };
+  const known = new Set([
+    "executable",
+    "args",
+    "env",
+    "model",
+    "titleModel",
+    "thinkingLevel",
+    "steeringMode",
+    "followUpMode",
+    "autoCompaction",
+    "autoRetry",
+    "timeouts",
+    "paths",
+  ]);
+  for (const key of Object.keys(value)) {
+    if (!known.has(key)) {
+      errors.push(`${label}: unknown key "${key}"`);
+    }
+  }
+  check("executable", typeof value.executable === "string" && value.executable.length > 0, "a non-empty string");
+  check("args", isStringArray(value.args), "an array of strings");
+  check(
+    "env",
+    isRecord(value.env) && Object.values(value.env).every((entry) => typeof entry === "string"),
+    "an object of string values"
+  );
+  check("model", typeof value.model === "string" && value.model.includes(":"), `a "provider:model-id" string`);
+  check(
+    "titleModel",
+    typeof value.titleModel === "string" && value.titleModel.includes(":"),
+    `a "provider:model-id" string`
+  );
+  check(
+    "thinkingLevel",
+    (THINKING_LEVELS_WITH_XHIGH as readonly unknown[]).includes(value.thinkingLevel),
+    `one of ${THINKING_LEVELS_WITH_XHIGH.join(", ")}`
+  );
+  check("steeringMode", MODES.includes(value.steeringMode as string), `one of ${MODES.join(", ")}`);
+  check("followUpMode", MODES.includes(value.followUpMode as string), `one of ${MODES.join(", ")}`);
+  check("autoCompaction", typeof value.autoCompaction === "boolean", "a boolean");
+  check("autoRetry", typeof value.autoRetry === "boolean", "a boolean");
+  check("paths", isStringArray(value.paths), "an array of strings");
+  if (value.timeouts !== undefined) {
+    if (!isRecord(value.timeouts)) {
+      errors.push(`${label}.timeouts must be an object`);
+    } else {
+      for (const [key, timeout] of Object.entries(value.timeouts)) {
+        if (key !== "requestMs" && key !== "switchSessionMs") {
+          errors.push(`${label}.timeouts: unknown key "${key}"`);
+        } else if (typeof timeout !== "number" || !Number.isFinite(timeout) || timeout <= 0) {
+          errors.push(`${label}.timeouts.${key} must be a positive number`);
+        }
+      }
+    }
+  }
+  return value as PiProfile;
+}
+
+function validateLogging(value: unknown, errors: string[]): LoggingConfig {
+  if (!isRecord(value)) {
+    errors.push(`"logging" must be an object`);
+    return {};
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    if (key === "level") {
+      if (!(LOG_LEVELS as readonly unknown[]).includes(entry)) {
+        errors.push(`logging.level must be one of ${LOG_LEVELS.join(", ")}`);
+      }
+    } else if (key === "file") {
+      if (typeof entry !== "boolean") {
+        errors.push("logging.file must be a boolean");
+      }
+    } else if (key === "maxFileBytes" || key === "maxFiles") {
+      if (typeof entry !== "number" || !Number.isInteger(entry) || entry <= 0) {
+        errors.push(`logging.${key} must be a positive integer`);
+      }
+    } else {
+      errors.push(`logging: unknown key "${key}"`);
+    }
+  }
+  return value as LoggingConfig;
+}
+
+function validateRetention(value: unknown, errors: string[]): RetentionPolicy {
+  if (!isRecord(value)) {
+    errors.push(`"retention" must be an object`);
+    return {};
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    if (key === "maxAgeDays") {
+      if (typeof entry !== "number" || !Number.isFinite(entry) || entry <= 0) {
+        errors.push("retention.maxAgeDays must be a positive number");
+      }
+    } else if (key === "maxTotalBytes" || key === "maxProjectBytes" || key === "maxProjectSessions") {
+      if (typeof entry !== "number" || !Number.isInteger(entry) || entry <= 0) {
+        errors.push(`retention.${key} must be a positive integer`);
+      }
+    } else if (key === "runAtStartup") {
+      if (typeof entry !== "boolean") {
+        errors.push("retention.runAtStartup must be a boolean");
+      }
+    } else {
+      errors.push(`retention: unknown key "${key}"`);
+    }
+  }
+  return value as RetentionPolicy;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+}
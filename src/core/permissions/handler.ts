@@ -0,0 +1,146 @@
+import type { PermissionOption, RequestPermissionResponse, SessionUpdate } from "@agentclientprotocol/sdk";
+import { logInfo, logWarn } from "../../logger";
+import { PERMISSION_REQUEST_TITLE } from "../../pi/extensions/permission-gate";
+import type { PiEvent } from "../../pi/types";
+import { isToolAlwaysAskedByMode, isToolBlockedByMode } from "../session/modes";
+import type { AcpClient, SessionState } from "../session/types";
+import type { SessionToolHandler } from "../tools/session-tools";
+
+type EmitUpdate = (sessionId: string, update: SessionUpdate) => void;
+
+type UiRequestEvent = Extract<PiEvent, { type: "extension_ui_request" }>;
+
+type PermissionRequest = {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+};
+
+/** Extension UI methods that block pi until they are answered. */
+export const DIALOG_METHODS = new Set(["select", "confirm", "input", "editor"]);
+
+const PERMISSION_OPTIONS: PermissionOption[] = [
+  { optionId: "allow_once", name: "Allow", kind: "allow_once" },
+  { optionId: "allow_always", name: "Always allow for this session", kind: "allow_always" },
+  { optionId: "reject_once", name: "Reject", kind: "reject_once" },
+  { optionId: "reject_always", name: "Always reject for this session", kind: "reject_always" },
+];
+
+export class SessionPermissionHandler {
+  private readonly emitUpdate: EmitUpdate;
+  private readonly getClient: (session: SessionState) => AcpClient | null;
+  private readonly tools: SessionToolHandler;
+
+  constructor(
+    emitUpdate: EmitUpdate,
+    getClient: (session: SessionState) => AcpClient | null,
+    tools: SessionToolHandler
+  ) {
+    this.emitUpdate = emitUpdate;
+    this.getClient = getClient;
+    this.tools = tools;
+  }
+
+  async handleUiRequest(session: SessionState, event: UiRequestEvent): Promise<void> {
+    if (!DIALOG_METHODS.has(event.method)) {
+      return;
+    }
+    const request = event.method === "confirm" && event.title === PERMISSION_REQUEST_TITLE
+      ? parsePermissionRequest(event.message)
+      : null;
+    if (!request) {
+      // Other extension dialogs have no ACP equivalent; answer them so pi doesn't wait forever.
+      session.pi.send({ type: "extension_ui_response", id: event.id, cancelled: true });
+      return;
+    }
+    const confirmed = await this.decide(session, request);
+    if (confirmed) {
+      // pi runs the tool once answered, so this is the last moment the file is unchanged
+      await this.tools.snapshotBeforeRun(session, request.toolCallId, request.input);
+    }
+    session.pi.send({ type: "extension_ui_response", id: event.id, confirmed });
+  }
+
+  private async decide(session: SessionState, request: PermissionRequest): Promise<boolean> {
+    if (isToolBlockedByMode(session.modeId, request.toolName)) {
+      logInfo(`permission denied by ${session.modeId} mode: ${request.toolName}`, {
+        sessionId: session.id,
+        toolCallId: request.toolCallId,
+      });
+      return false;
+    }
+    const policyKey = request.toolName.toLowerCase();
+    const policy = session.permissionPolicy.get(policyKey);
+    if (policy === "reject" || (policy === "allow" && !isToolAlwaysAskedByMode(session.modeId, request.toolName))) {
+      return policy === "allow";
+    }
+
+    const client = this.getClient(session);
+    if (!client) {
+      // Nobody is attached to ask (e.g. the client disconnected from `serve`)
+      logInfo(`permission denied, no client attached: ${request.toolName}`, {
+        sessionId: session.id,
+        toolCallId: request.toolCallId,
+      });
+      return false;
+    }
+
+    let response: RequestPermissionResponse;
+    try {
+      response = await client.requestPermission({
+        sessionId: session.id,
+        // The client has not seen this call yet, so it gets all a `tool_call` would carry
+        toolCall: {
+          toolCallId: request.toolCallId,
+          ...this.tools.describeToolCall(request.toolName, request.input),
+          status: "pending",
+          rawInput: request.input,
+        },
+        options: PERMISSION_OPTIONS,
+      });
+    } catch (error) {
+      logWarn(`permission request failed: ${(error as Error).message}`, {
+        sessionId: session.id,
+        toolCallId: request.toolCallId,
+      });
+      return false;
+    }
+
+    const outcome = response.outcome;
+    if (outcome.outcome !== "selected") {
+      logInfo(`permission cancelled: ${request.toolName}`, { sessionId: session.id, toolCallId: request.toolCallId });
+      return false;
+    }
+    logInfo(`permission ${outcome.optionId}: ${request.toolName}`, { sessionId: session.id, toolCallId: request.toolCallId });
+    if (outcome.optionId === "allow_always") {
+      session.permissionPolicy.set(policyKey, "allow");
+    } else if (outcome.optionId === "reject_always") {
+      session.permissionPolicy.set(policyKey, "reject");
+    }
+    const allowed = outcome.optionId === "allow_once" || outcome.optionId === "allow_always";
+    // pi asks before it announces the call; unannounced calls fail through their `tool_execution_end`
+    if (!allowed && session.toolCallInputs.has(request.toolCallId)) {
+      this.emitUpdate(session.id, {
+        sessionUpdate: "tool_call_update",
+        toolCallId: request.toolCallId,
+        status: "failed",
+      });
+    }
+    return allowed;
+  }
+}
+
+function parsePermissionRequest(message?: string): PermissionRequest | null {
+  if (!message) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(message) as Partial<PermissionRequest>;
+    if (typeof parsed.toolCallId !== "string" || typeof parsed.toolName !== "string") {
+      return null;
+    }
+    return { toolCallId: parsed.toolCallId, toolName: parsed.toolName, input: parsed.input };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,134 @@
+import type { PlanEntry, PlanEntryPriority, PlanEntryStatus, SessionUpdate } from "@agentclientprotocol/sdk";
+import type { PiEvent } from "../../pi/types";
+import type { SessionState } from "../session/types";
+
+type EmitUpdate = (sessionId: string, update: SessionUpdate) => void;
+
+type ToolStartEvent = Extract<PiEvent, { type: "tool_execution_start" }>;
+type ToolEndEvent = Extract<PiEvent, { type: "tool_execution_end" }>;
+
+const PLAN_TOOL_NAMES = new Set(["todo", "todos", "todowrite", "todo_write", "write_todos", "plan", "update_plan"]);
+/** `customType`s of extension messages (`pi.sendMessage`) that carry a plan. */
+const PLAN_MESSAGE_TYPES = new Set(["plan", "todo", "todos"]);
+const PLAN_LIST_KEYS = ["todos", "plan", "items", "tasks", "steps"] as const;
+const PRIORITIES = new Set<PlanEntryPriority>(["high", "medium", "low"]);
+
+/**
+ * Turns pi todo/plan tool calls into ACP `plan` updates. Tools that send the
+ * whole list in their arguments are reflected when they start; tools that
+ * mutate a list (add/toggle) report the resulting list in their result
+ * details, which is reflected when they end. Extensions that track a plan
+ * without a tool post it as a custom message, whose `details` hold the list.
+ */
+export class SessionPlanReporter {
+  private readonly emitUpdate: EmitUpdate;
+
+  constructor(emitUpdate: EmitUpdate) {
+    this.emitUpdate = emitUpdate;
+  }
+
+  isPlanTool(toolName: string): boolean {
+    return PLAN_TOOL_NAMES.has(toolName.toLowerCase());
+  }
+
+  handleStart(session: SessionState, event: ToolStartEvent): void {
+    if (!this.isPlanTool(event.toolName)) {
+      return;
+    }
+    const entries = extractPlanEntries(event.args);
+    if (entries) {
+      this.update(session, entries);
+    }
+  }
+
+  handleEnd(session: SessionState, event: ToolEndEvent): void {
+    if (!this.isPlanTool(event.toolName) || event.isError) {
+      return;
+    }
+    const entries = extractPlanEntries(event.result?.details);
+    if (entries) {
+      this.update(session, entries);
+    }
+  }
+
+  handleMessage(session: SessionState, message: unknown): void {
+    if (!message || typeof message !== "object") {
+      return;
+    }
+    const { role, customType, details } = message as { role?: unknown; customType?: unknown; details?: unknown };
+    if (role !== "custom" || typeof customType !== "string" || !PLAN_MESSAGE_TYPES.has(customType.toLowerCase())) {
+      return;
+    }
+    const entries = extractPlanEntries(details);
+    if (entries) {
+      this.update(session, entries);
+    }
+  }
+
+  private update(session: SessionState, entries: PlanEntry[]): void {
+    if (session.plan && JSON.stringify(session.plan) === JSON.stringify(entries)) {
+      return;
+    }
+    session.plan = entries;
+    this.emitUpdate(session.id, { sessionUpdate: "plan", entries });
+  }
+}
+
+export function extractPlanEntries(source: unknown): PlanEntry[] | null {
+  if (!source || typeof source !== "object") {
+    return null;
+  }
+  const record = source as Record<string, unknown>;
+  const list = PLAN_LIST_KEYS.map((key) => record[key]).find(Array.isArray);
+  if (!list) {
+    return null;
+  }
+  const entries: PlanEntry[] = [];
+  for (const item of list) {
+    const entry = toPlanEntry(item);
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+  return entries;
+}
+
+function toPlanEntry(item: unknown): PlanEntry | null {
+  if (typeof item === "string") {
+    return item.trim() ? { content: item.trim(), priority: "medium", status: "pending" } : null;
+  }
+  if (!item || typeof item !== "object") {
+    return null;
+  }
+  const record = item as Record<string, unknown>;
+  const content = [record.content, record.text, record.step, record.title, record.description].find(
+    (value): value is string => typeof value === "string" && value.trim().length > 0
+  );
+  if (!content) {
+    return null;
+  }
+  return {
+    content: content.trim(),
+    priority: normalizePriority(record.priority),
+    status: normalizeStatus(record),
+  };
+}
+
+function normalizePriority(value: unknown): PlanEntryPriority {
+  const normalized = typeof value === "string" ? value.toLowerCase() : "";
+  return PRIORITIES.has(normalized as PlanEntryPriority) ? (normalized as PlanEntryPriority) : "medium";
+}
+
+function normalizeStatus(record: Record<string, unknown>): PlanEntryStatus {
+  if (record.done === true || record.completed === true) {
+    return "completed";
+  }
+  const status = typeof record.status === "string" ? record.status.toLowerCase().replace(/[\s-]/g, "_") : "";
+  if (status === "completed" || status === "done" || status === "complete") {
+    return "completed";
+  }
+  if (status === "in_progress" || status === "active" || status === "running") {
+    return "in_progress";
+  }
+  return "pending";
+}
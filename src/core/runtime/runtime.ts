@@ -1,11 +1,18 @@
-import { logInfo, logWarn } from "../../logger";
+import { logDebug, logWarn } from "../../logger";
+import { TERMINAL_REQUEST_TITLE } from "../../pi/extensions/client-terminal";
 import { PiEvent, PiResponse } from "../../pi/types";
-import type { ContentBlock, SessionUpdate, StopReason } from "@agentclientprotocol/sdk";
-import type { SessionState } from "../session/types";
+import type { ClientCapabilities, ContentBlock, SessionUpdate, StopReason } from "@agentclientprotocol/sdk";
+import { readSessionTranscript, type SessionTranscript } from "../session/transcript";
+import { advancePromptQueue, settlePrompts, startPromptTimer } from "../session/prompts";
+import type { AcpClient, SessionState } from "../session/types";
 import { SessionCommandHandler } from "../commands/handler";
+import { SessionPermissionHandler } from "../permissions/handler";
 import { SessionToolHandler } from "../tools/session-tools";
+import { killSessionTerminals } from "../tools/terminal";
+import { SessionPlanReporter } from "./plan";
 import { SessionStatsReporter } from "./stats";
 import { SessionStatusReporter } from "./status";
+import { SessionTitleGenerator } from "./titles";
 
 const STOP_REASON_MAP: Record<string, StopReason> = {
   stop: "end_turn",
@@ -14,21 +21,33 @@ const STOP_REASON_MAP: Record<string, StopReason> = {
   toolUse: "end_turn",
 };
 
-const HISTORY_LOAD_TIMEOUT_MS = 30000;
+type ReplayToolResult = { content?: unknown; details?: Record<string, unknown>; isError?: boolean };
 
 export class SessionRuntime {
   private readonly emitUpdate: (sessionId: string, update: SessionUpdate) => void;
   private readonly commands: SessionCommandHandler;
   private readonly tools: SessionToolHandler;
+  private readonly permissions: SessionPermissionHandler;
+  private readonly plans: SessionPlanReporter;
   private readonly stats: SessionStatsReporter;
   private readonly status: SessionStatusReporter;
+  private readonly titles: SessionTitleGenerator;
 
-  constructor(options: { emitUpdate: (sessionId: string, update: SessionUpdate) => void }) {
+  constructor(options: {
+    emitUpdate: (sessionId: string, update: SessionUpdate) => void;
+    getClient: (session: SessionState) => AcpClient | null;
+    getClientCapabilities: (session: SessionState) => ClientCapabilities;
+    /** Whether a live session uses this pi session file, so `/gc` leaves it alone. */
+    isSessionFileLive: (filePath: string) => boolean;
+  }) {
     this.emitUpdate = options.emitUpdate;
-    this.commands = new SessionCommandHandler(this.emitUpdate);
-    this.tools = new SessionToolHandler(this.emitUpdate);
+    this.commands = new SessionCommandHandler(this.emitUpdate, options.isSessionFileLive);
+    this.tools = new SessionToolHandler(this.emitUpdate, options.getClient, options.getClientCapabilities);
+    this.permissions = new SessionPermissionHandler(this.emitUpdate, options.getClient, this.tools);
+    this.plans = new SessionPlanReporter(this.emitUpdate);
     this.stats = new SessionStatsReporter(this.emitUpdate);
     this.status = new SessionStatusReporter();
+    this.titles = new SessionTitleGenerator(this.emitUpdate);
   }
 
   // Status is lazily initialized on first update() call to prevent race conditions
@@ -38,39 +57,62 @@ export class SessionRuntime {
   }
 
   beginPrompt(session: SessionState): void {
+    startPromptTimer(session);
     this.status.update(session, { state: "running", detail: "Prompt sent" });
   }
 
   cancelPrompt(session: SessionState): void {
     this.status.update(session, { state: "cancelled", detail: "Prompt cancelled" });
+    void killSessionTerminals(session);
   }
 
   handlePiLine(session: SessionState, line: PiEvent | PiResponse): void {
     if ((line as PiResponse).type === "response") {
       const response = line as PiResponse;
       if (!response.success) {
-        logWarn(`pi response error: ${response.error ?? "unknown"}`);
+        logWarn(`pi response error: ${response.error ?? "unknown"}`, { sessionId: session.id });
       }
       return;
     }
 
     const event = line as PiEvent;
-    logInfo(`pi event: ${event.type}`);
+    logDebug(`pi event: ${event.type}`, { sessionId: session.id });
     switch (event.type) {
+      case "message_start":
+        if ((event.message as { role?: string } | undefined)?.role === "user") {
+          advancePromptQueue(session);
+        }
+        break;
       case "message_update":
         this.handleMessageUpdate(session, event);
         break;
+      case "message_end":
+        this.plans.handleMessage(session, event.message);
+        break;
       case "tool_execution_start":
         this.status.update(session, { state: "running", detail: this.formatToolStatus(event.toolName, event.args, true) });
-        void this.tools.handleStart(session, event);
+        this.tools.handleStart(session, event);
+        this.plans.handleStart(session, event);
         break;
       case "tool_execution_update":
         this.tools.handleUpdate(session, event);
         break;
       case "tool_execution_end":
-        this.tools.handleEnd(session, event);
+        session.metrics.toolCalls += 1;
+        if (event.isError) {
+          session.metrics.toolErrors += 1;
+        }
+        void this.tools.handleEnd(session, event);
+        this.plans.handleEnd(session, event);
         this.status.update(session, { state: "running", detail: this.formatToolStatus(event.toolName, undefined, false) });
         break;
+      case "extension_ui_request":
+        if (event.method === "editor" && event.title === TERMINAL_REQUEST_TITLE) {
+          void this.tools.handleTerminalRequest(session, event);
+        } else {
+          void this.permissions.handleUiRequest(session, event);
+        }
+        break;
       case "turn_end":
         this.handleTurnEnd(session, event);
         break;
@@ -143,42 +185,113 @@ export class SessionRuntime {
   }
 
   async replayHistory(session: SessionState): Promise<void> {
-    let response: PiResponse;
-    try {
-      response = await session.pi.request({ type: "get_messages" }, HISTORY_LOAD_TIMEOUT_MS);
-    } catch (error) {
-      logWarn(`history replay failed for ${session.id}: ${(error as Error).message}`);
-      return;
-    }
-    if (!response.success || !response.data || typeof response.data !== "object") {
+    if (!session.sessionFile) {
       return;
     }
-    const messages = (response.data as { messages?: unknown[] }).messages;
-    if (!Array.isArray(messages)) {
+    let transcript: SessionTranscript;
+    try {
+      transcript = await readSessionTranscript(session.sessionFile);
+    } catch (error) {
+      logWarn(`history replay failed: ${(error as Error).message}`, { sessionId: session.id });
       return;
     }
+    this.replayMessages(session.id, transcript.messages);
+  }
 
+  /**
+   * Re-emit a pi message list as session updates: text, thinking and images as
+   * message chunks, and each tool call paired with its result.
+   */
+  replayMessages(sessionId: string, messages: unknown[]): void {
+    const toolResults = new Map<string, ReplayToolResult>();
     for (const message of messages) {
+      const entry = message as ReplayToolResult & { role?: string; toolCallId?: unknown };
+      if (entry?.role === "toolResult" && typeof entry.toolCallId === "string") {
+        toolResults.set(entry.toolCallId, entry);
+      }
+    }
+
+    messages.forEach((message, index) => {
       const entry = message as { role?: string; content?: unknown };
-      const role = entry.role ?? "assistant";
-      const content = entry.content;
+      const role = entry?.role ?? "assistant";
+      const chunkType = role === "user" ? "user_message_chunk" : "agent_message_chunk";
+      const content = entry?.content;
+
+      if (role === "toolResult") {
+        return;
+      }
+
+      if (role === "bashExecution") {
+        const bash = message as { command?: unknown; output?: unknown; exitCode?: unknown };
+        if (typeof bash.command === "string") {
+          this.tools.replayToolCall(
+            sessionId,
+            { id: `bash:${index}`, name: "bash", arguments: { command: bash.command } },
+            {
+              content: [{ type: "text", text: typeof bash.output === "string" ? bash.output : "" }],
+              isError: typeof bash.exitCode === "number" && bash.exitCode !== 0,
+            }
+          );
+        }
+        return;
+      }
 
       if (typeof content === "string") {
-        this.emitText(session.id, role === "user" ? "user_message_chunk" : "agent_message_chunk", content);
-        continue;
+        this.emitText(sessionId, chunkType, content);
+        return;
       }
 
-      if (Array.isArray(content)) {
-        for (const item of content) {
-          if (typeof item === "object" && item && (item as { type?: string }).type === "text") {
-            const text = (item as { text?: string }).text;
-            if (text) {
-              this.emitText(session.id, role === "user" ? "user_message_chunk" : "agent_message_chunk", text);
+      if (!Array.isArray(content)) {
+        return;
+      }
+
+      for (const item of content) {
+        if (!item || typeof item !== "object") {
+          continue;
+        }
+        const block = item as {
+          type?: string;
+          text?: string;
+          thinking?: string;
+          data?: string;
+          mimeType?: string;
+          id?: string;
+          name?: string;
+          arguments?: unknown;
+        };
+        switch (block.type) {
+          case "text":
+            if (block.text) {
+              this.emitText(sessionId, chunkType, block.text);
             }
-          }
+            break;
+          case "thinking":
+            if (block.thinking) {
+              this.emitText(sessionId, "agent_thought_chunk", block.thinking);
+            }
+            break;
+          case "image":
+            if (block.data && block.mimeType) {
+              this.emitUpdate(sessionId, {
+                sessionUpdate: chunkType,
+                content: { type: "image", data: block.data, mimeType: block.mimeType },
+              });
+            }
+            break;
+          case "toolCall":
+            if (block.id && block.name) {
+              this.tools.replayToolCall(
+                sessionId,
+                { id: block.id, name: block.name, arguments: block.arguments },
+                toolResults.get(block.id)
+              );
+            }
+            break;
+          default:
+            break;
         }
       }
-    }
+    });
   }
 
   private handleMessageUpdate(session: SessionState, event: Extract<PiEvent, { type: "message_update" }>): void {
@@ -208,6 +321,7 @@ export class SessionRuntime {
     this.status.update(session, { state: "idle", detail: "Agent finished" });
     // Report full stats
     void this.stats.report(session);
+    this.titles.handleAgentEnd(session);
   }
 
   private handleTurnEnd(session: SessionState, event: Extract<PiEvent, { type: "turn_end" }>): void {
@@ -220,10 +334,7 @@ export class SessionRuntime {
   }
 
   private resolvePendingPrompt(session: SessionState, stopReason: StopReason): void {
-    if (session.pendingPrompt) {
-      session.pendingPrompt.resolve(stopReason);
-      session.pendingPrompt = undefined;
-    }
+    settlePrompts(session, stopReason);
   }
 
   private emitText(
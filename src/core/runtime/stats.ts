@@ -39,13 +39,14 @@ export class SessionStatsReporter {
     try {
       statsResponse = await session.pi.request({ type: "get_session_stats" }, PI_REQUEST_TIMEOUT_MS);
     } catch (error) {
-      logWarn(`session stats request failed for ${session.id}: ${(error as Error).message}`);
+      logWarn(`session stats request failed: ${(error as Error).message}`, { sessionId: session.id });
       return;
     }
     if (!statsResponse.success) {
       return;
     }
     const data = statsResponse.data && typeof statsResponse.data === "object" ? (statsResponse.data as SessionStats) : {};
+    recordStats(session, data);
     const model = session.currentModelId ? session.modelMap.get(session.currentModelId) : undefined;
     const contentText = this.formatStats(data, model?.contextWindow, model?.maxTokens);
     const sessionInfo = await this.loadSessionInfo(session);
@@ -103,7 +104,7 @@ export class SessionStatsReporter {
     try {
       return await readSessionInfo(sessionFile);
     } catch (error) {
-      logWarn(`session info read failed for ${session.id}: ${(error as Error).message}`);
+      logWarn(`session info read failed: ${(error as Error).message}`, { sessionId: session.id });
       return null;
     }
   }
@@ -116,7 +117,7 @@ export class SessionStatsReporter {
     try {
       response = await session.pi.request({ type: "get_state" }, PI_REQUEST_TIMEOUT_MS);
     } catch (error) {
-      logWarn(`session file lookup failed for ${session.id}: ${(error as Error).message}`);
+      logWarn(`session file lookup failed: ${(error as Error).message}`, { sessionId: session.id });
       return null;
     }
     if (!response.success || !response.data || typeof response.data !== "object") {
@@ -170,6 +171,7 @@ export class SessionStatsReporter {
       return null;
     }
     const data = statsResponse.data && typeof statsResponse.data === "object" ? (statsResponse.data as SessionStats) : {};
+    recordStats(session, data);
     const model = session.currentModelId ? session.modelMap.get(session.currentModelId) : undefined;
     return this.formatSummary(data, model?.contextWindow);
   }
@@ -190,6 +192,22 @@ export class SessionStatsReporter {
   }
 }
 
+/** Keep pi's latest token and cost totals on the session for the status endpoint. */
+function recordStats(session: SessionState, data: SessionStats): void {
+  const tokens = data.tokens ?? {};
+  const metrics = session.metrics;
+  metrics.tokens = {
+    input: tokens.input ?? metrics.tokens.input,
+    output: tokens.output ?? metrics.tokens.output,
+    cacheRead: tokens.cacheRead ?? metrics.tokens.cacheRead,
+    cacheWrite: tokens.cacheWrite ?? metrics.tokens.cacheWrite,
+    total: tokens.total ?? metrics.tokens.total,
+  };
+  if (typeof data.cost === "number") {
+    metrics.cost = data.cost;
+  }
+}
+
 function formatCount(label: string, value?: number): string | null {
   if (typeof value !== "number") {
     return null;
@@ -0,0 +1,182 @@
+import type { SessionUpdate } from "@agentclientprotocol/sdk";
+import { logDebug, logInfo, logWarn } from "../../logger";
+import type { PiProcess } from "../../pi/process";
+import type { PiEvent, PiLine } from "../../pi/types";
+import { DIALOG_METHODS } from "../permissions/handler";
+import { readSessionInfo } from "../session/metadata";
+import { spawnEphemeralPi } from "../session/spawn";
+import { setSessionTitle } from "../session/title";
+import { readSessionTranscript } from "../session/transcript";
+import type { SessionState } from "../session/types";
+import { extractMessageText, normalizeTitle, truncateTitle } from "../session/utils";
+
+type EmitUpdate = (sessionId: string, update: SessionUpdate) => void;
+
+const TITLE_TIMEOUT_MS = 60000;
+/** Per message and in total: the start of a conversation is enough to name it. */
+const MESSAGE_EXCERPT_CHARS = 1500;
+const EXCERPT_CHARS = 4000;
+const MAX_GENERATED_TITLE_LENGTH = 80;
+
+const TITLE_INSTRUCTIONS = [
+  "Write a short, descriptive title for the conversation below, at most eight words.",
+  "Reply with the title only: no quotes, no trailing punctuation, no explanation.",
+  "Do not use any tools.",
+].join(" ");
+
+/**
+ * Names a session from its first turn when the profile sets `titleModel`.
+ * The request runs in a separate pi that keeps no session file, so neither
+ * the prompt nor the reply lands in the user's conversation.
+ */
+export class SessionTitleGenerator {
+  private readonly emitUpdate: EmitUpdate;
+
+  constructor(emitUpdate: EmitUpdate) {
+    this.emitUpdate = emitUpdate;
+  }
+
+  handleAgentEnd(session: SessionState): void {
+    const titleModel = session.profile?.titleModel;
+    if (!titleModel || session.titleRequested || !session.sessionFile) {
+      return;
+    }
+    session.titleRequested = true;
+    this.generate(session, session.sessionFile, titleModel).catch((error: Error) =>
+      logWarn(`generating session title failed: ${error.message}`, { sessionId: session.id })
+    );
+  }
+
+  private async generate(session: SessionState, sessionFile: string, titleModel: string): Promise<void> {
+    if (await isNamed(session, sessionFile)) {
+      return;
+    }
+    const excerpt = await buildExcerpt(sessionFile);
+    if (!excerpt) {
+      return;
+    }
+    const reply = await requestTitle(session, titleModel, excerpt);
+    const title = cleanTitle(reply);
+    if (!title) {
+      logDebug(`title model gave no usable title`, { sessionId: session.id });
+      return;
+    }
+    // The user may have named the session while the title model was working
+    if (await isNamed(session, sessionFile)) {
+      return;
+    }
+    await setSessionTitle(session, title, this.emitUpdate);
+    logInfo(`generated session title with ${titleModel}`, { sessionId: session.id });
+  }
+}
+
+async function isNamed(session: SessionState, sessionFile: string): Promise<boolean> {
+  return Boolean(session.unsavedTitle) || Boolean((await readSessionInfo(sessionFile))?.named);
+}
+
+async function buildExcerpt(sessionFile: string): Promise<string | null> {
+  const { messages } = await readSessionTranscript(sessionFile);
+  const lines: string[] = [];
+  let length = 0;
+  for (const message of messages as Array<{ role?: unknown; content?: unknown }>) {
+    if (message.role !== "user" && message.role !== "assistant") {
+      continue;
+    }
+    const text = extractMessageText(message.content);
+    if (!text) {
+      continue;
+    }
+    const line = `${message.role === "user" ? "User" : "Assistant"}: ${text.slice(0, MESSAGE_EXCERPT_CHARS)}`;
+    lines.push(line.slice(0, EXCERPT_CHARS - length));
+    length += line.length;
+    if (length >= EXCERPT_CHARS) {
+      break;
+    }
+  }
+  return lines.length > 0 ? lines.join("\n\n") : null;
+}
+
+/** Run one prompt on a throwaway pi and return the assistant's reply. */
+async function requestTitle(session: SessionState, titleModel: string, excerpt: string): Promise<string | null> {
+  // Its own id in logs and traces, so replaying the session does not mix in the side request
+  const pi = spawnEphemeralPi(session.cwd, session.profile ?? { name: null }, { sessionId: `${session.id}/title` });
+  try {
+    const finished = waitForAgentEnd(pi);
+    // Attached before the first await so an early failure is not reported as unhandled
+    finished.catch(() => undefined);
+    const [provider, ...rest] = titleModel.split(":");
+    const model = await pi.request({ type: "set_model", provider, modelId: rest.join(":") });
+    if (!model.success) {
+      throw new Error(model.error ?? `Failed to select ${titleModel}`);
+    }
+    const prompt = await pi.request({
+      type: "prompt",
+      message: `${TITLE_INSTRUCTIONS}\n\n<conversation>\n${excerpt}\n</conversation>`,
+    });
+    if (!prompt.success) {
+      throw new Error(prompt.error ?? "Prompt failed");
+    }
+    await finished;
+    const response = await pi.request({ type: "get_last_assistant_text" });
+    if (!response.success) {
+      throw new Error(response.error ?? "Failed to read the reply");
+    }
+    const text = response.data && typeof response.data === "object" ? (response.data as { text?: unknown }).text : null;
+    return typeof text === "string" ? text : null;
+  } finally {
+    pi.stop();
+  }
+}
+
+/**
+ * Resolve on the side pi's `agent_end`. Every dialog is refused, so the title
+ * model cannot run a gated tool or wait on a question nobody will answer.
+ */
+function waitForAgentEnd(pi: PiProcess): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => reject(new Error("Timed out waiting for the title model")), TITLE_TIMEOUT_MS);
+    timeoutId.unref();
+    const settle = (error?: Error) => {
+      clearTimeout(timeoutId);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    pi.onLine((line: PiLine) => {
+      const event = line as PiEvent;
+      if (event.type === "agent_end") {
+        settle();
+      } else if (event.type === "extension_ui_request" && DIALOG_METHODS.has(event.method)) {
+        pi.send(
+          event.method === "confirm"
+            ? { type: "extension_ui_response", id: event.id, confirmed: false }
+            : { type: "extension_ui_response", id: event.id, cancelled: true }
+        );
+      }
+    });
+    pi.onExit((info) => {
+      if (!info.expected) {
+        settle(new Error(`title pi exited (code ${info.code ?? "none"}, signal ${info.signal ?? "none"})`));
+      }
+    });
+    pi.onError((error) => settle(error));
+  });
+}
+
+function cleanTitle(reply: string | null): string | undefined {
+  const line = reply
+    ?.split("\n")
+    .map((entry) => entry.trim())
+    .find((entry) => entry.length > 0);
+  if (!line) {
+    return undefined;
+  }
+  const title = line
+    .replace(/^title:\s*/i, "")
+    .replace(/^["'`*]+|["'`*]+$/g, "")
+    .replace(/[.:;,]+$/, "");
+  const normalized = normalizeTitle(title);
+  return normalized && truncateTitle(normalized, MAX_GENERATED_TITLE_LENGTH);
+}
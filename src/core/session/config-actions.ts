@@ -49,6 +49,18 @@ export async function setToggleOption(
   await refreshConfigOptions(session, emitUpdate);
 }
 
+export async function setPromptQueueBehavior(
+  session: SessionState,
+  emitUpdate: EmitUpdate,
+  value: string
+): Promise<void> {
+  if (value !== "steer" && value !== "followUp") {
+    throw new Error(`Invalid value for queued prompts: ${value}`);
+  }
+  session.promptQueueBehavior = value;
+  await refreshConfigOptions(session, emitUpdate);
+}
+
 export function getConfigOptions(session: SessionState): SessionConfigOption[] {
   return session.configOptions ?? [];
 }
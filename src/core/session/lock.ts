@@ -0,0 +1,81 @@
+import { randomUUID } from "node:crypto";
+import { link, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 10000;
+/** A lock held this long is assumed to belong to a hung or crashed process. */
+const LOCK_STALE_MS = 30000;
+
+/**
+ * Run `fn` while holding an exclusive lock file shared by every pi-acp process.
+ * The lock records its owner's PID, so a lock left behind by a process that
+ * died is taken over instead of blocking until it goes stale.
+ */
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      await writeFile(lockPath, `${process.pid}\n`, { flag: "wx" });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+    const stale = await readStaleLock(lockPath);
+    if (stale !== null) {
+      await breakLock(lockPath, stale);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+  try {
+    return await fn();
+  } finally {
+    await rm(lockPath, { force: true });
+  }
+}
+
+/** The contents of the lock file if its owner is gone or it is too old, otherwise null. */
+async function readStaleLock(lockPath: string): Promise<string | null> {
+  try {
+    const [raw, info] = await Promise.all([readFile(lockPath, "utf8"), stat(lockPath)]);
+    if (Date.now() - info.mtimeMs > LOCK_STALE_MS) {
+      return raw;
+    }
+    const pid = Number.parseInt(raw, 10);
+    return Number.isInteger(pid) && !isProcessAlive(pid) ? raw : null;
+  } catch {
+    // Released while we looked: retry
+    return null;
+  }
+}
+
+/**
+ * Move the stale lock aside before deleting it. If another process broke it
+ * first and took a fresh lock, that lock is what got moved, so put it back.
+ */
+async function breakLock(lockPath: string, staleContents: string): Promise<void> {
+  const aside = `${lockPath}.${randomUUID()}.stale`;
+  try {
+    await rename(lockPath, aside);
+  } catch {
+    return;
+  }
+  if ((await readFile(aside, "utf8").catch(() => staleContents)) !== staleContents) {
+    await link(aside, lockPath).catch(() => undefined);
+  }
+  await rm(aside, { force: true });
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
@@ -0,0 +1,47 @@
+import { copyFile, mkdir, rename, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { logInfo } from "../../logger";
+import { sessionMapStore } from "./map";
+import type { ListedSession } from "./metadata";
+
+/** Where `/delete` moves session files; move one back to restore it. */
+export const TRASH_DIR = path.join(os.homedir(), ".pi", "pi-acp", "trash");
+
+/** Tags are lower-cased and stored without a leading `#`; null if `value` is not a usable tag. */
+export function normalizeTag(value: string): string | null {
+  const tag = value.trim().replace(/^#/, "").toLowerCase();
+  return /^[\p{L}\p{N}_./-]+$/u.test(tag) ? tag : null;
+}
+
+export async function setSessionTags(session: ListedSession, tags: string[]): Promise<void> {
+  await sessionMapStore.setLabels(session.sessionId, session.filePath, { tags: [...new Set(tags)].sort() });
+}
+
+export async function setSessionArchived(session: ListedSession, archived: boolean): Promise<void> {
+  await sessionMapStore.setLabels(session.sessionId, session.filePath, { archived });
+}
+
+/**
+ * Move a session file into the trash directory and drop every session map
+ * entry pointing at it, so neither listings nor id lookups find it again.
+ * Returns the file's path in the trash.
+ */
+export async function trashSession(session: ListedSession): Promise<string> {
+  await mkdir(TRASH_DIR, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const target = path.join(TRASH_DIR, `${stamp}_${path.basename(session.filePath)}`);
+  try {
+    await rename(session.filePath, target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error;
+    }
+    // The pi agent directory is on another filesystem
+    await copyFile(session.filePath, target);
+    await rm(session.filePath);
+  }
+  await sessionMapStore.removePath(session.filePath);
+  logInfo(`moved session to trash: ${target}`, { sessionId: session.sessionId });
+  return target;
+}
@@ -1,86 +1,245 @@
 import { randomUUID } from "node:crypto";
-import os from "node:os";
 import path from "node:path";
-import { logWarn } from "../../logger";
+import { logDebug, logInfo, logWarn } from "../../logger";
 import type {
+  ClientCapabilities,
   ContentBlock,
   ListSessionsRequest,
   SessionConfigOption,
   SessionInfo,
+  SessionModeState,
   SessionModelState,
   SessionUpdate,
   SetSessionConfigOptionRequest,
   StopReason,
 } from "@agentclientprotocol/sdk";
-import { refreshSessionConfig, resolveModelId } from "../config/config";
+import { refreshSessionConfig, resolveModelId, seedSessionConfig } from "../config/config";
+import { resolveProfile, type ResolvedProfile } from "../config/profiles";
 import { SessionRuntime } from "../runtime/runtime";
-import type { SessionState } from "./types";
-import { SessionMapStore } from "./map";
-import { createForkedSessionFile, readSessionInfo, scanSessions } from "./metadata";
-import { spawnSessionState } from "./spawn";
+import { extractCommandText, parseCommand } from "../commands/parser";
+import type { AcpClient, ClientConnection, SessionState } from "./types";
+import { normalizeTag } from "./manage";
+import { sessionMapStore } from "./map";
+import { createForkedSessionFile, pageSessions, readSessionInfo, scanSessions } from "./metadata";
+import { applyProfileDefaults, spawnSessionState } from "./spawn";
+import { SessionSupervisor } from "./supervisor";
+import { DEFAULT_POOL_OPTIONS, PiProcessPool, type ProcessPoolOptions } from "./pool";
+import { readSessionTranscript, type SessionTranscript } from "./transcript";
 import { buildMcpEnv, emitInitialSessionInfo, inferTitleFromPrompt, queueSessionInitUpdates, withHeartbeat } from "./updates";
 import { captureSessionFile, resolveSessionPath } from "./resolve";
-import { getConfigOptions, refreshConfigOptions, setModeOption, setThinkingLevel, setToggleOption } from "./config-actions";
+import {
+  getConfigOptions,
+  refreshConfigOptions,
+  setModeOption,
+  setPromptQueueBehavior,
+  setThinkingLevel,
+  setToggleOption,
+} from "./config-actions";
+import { failPrompts, settlePrompts } from "./prompts";
+import { getModeState, setSessionMode } from "./modes";
+import { sessionIndex } from "./session-index";
+import { sessionSearch, type SessionSearchResult } from "./search";
+import { snapshotSession, type AdapterSnapshot } from "./snapshot";
+import { appendTitleEntry, setSessionTitle } from "./title";
+import { normalizeTitle } from "./utils";
+
+const LIST_PAGE_SIZE = 50;
 
 export class SessionManager {
   private readonly sessions = new Map<string, SessionState>();
-  private emitUpdate: (params: { sessionId: string; update: SessionUpdate }) => void = () => undefined;
-  private readonly sessionMap = new SessionMapStore(
-    path.join(os.homedir(), ".pi", "pi-acp", "session-map.json")
-  );
+  private readonly connections = new Map<string, ClientConnection>();
+  /** While set, history replayed for one joining client is sent to that client only. */
+  private replayTarget?: { sessionId: string; connectionId: string };
+  /** Routes a session's updates to its controlling client and every observer. */
+  private readonly emitUpdate = (params: { sessionId: string; update: SessionUpdate }): void => {
+    if (this.replayTarget?.sessionId === params.sessionId) {
+      this.connections.get(this.replayTarget.connectionId)?.emitUpdate(params);
+      return;
+    }
+    const session = this.sessions.get(params.sessionId);
+    if (!session) {
+      return;
+    }
+    for (const connectionId of [session.connectionId, ...session.observerIds]) {
+      if (connectionId) {
+        this.connections.get(connectionId)?.emitUpdate(params);
+      }
+    }
+  };
+  private readonly sessionMap = sessionMapStore;
   private readonly runtime = new SessionRuntime({
     emitUpdate: (sessionId, update) => this.emitUpdate({ sessionId, update }),
+    getClient: (session) => this.getConnection(session)?.client ?? null,
+    getClientCapabilities: (session) => this.getConnection(session)?.capabilities ?? {},
+    isSessionFileLive: (filePath) => this.isSessionFileLive(filePath),
   });
+  private readonly supervisor = new SessionSupervisor(
+    () => this.emitUpdate,
+    (session) => this.sessions.get(session.id) === session
+  );
+  private readonly pool: PiProcessPool;
+
+  constructor(options?: { pool?: Partial<ProcessPoolOptions> }) {
+    this.pool = new PiProcessPool(
+      {
+        maxLiveProcesses: options?.pool?.maxLiveProcesses ?? DEFAULT_POOL_OPTIONS.maxLiveProcesses,
+        idleTimeoutMs: options?.pool?.idleTimeoutMs ?? DEFAULT_POOL_OPTIONS.idleTimeoutMs,
+      },
+      () => this.sessions.values()
+    );
+    sessionIndex.watch();
+    this.sessionMap
+      .collectGarbage()
+      .catch((error: Error) => logWarn(`session map cleanup failed: ${error.message}`));
+  }
+
+  /**
+   * Register a client connection. Sessions it creates or attaches to send their
+   * updates and permission requests to it.
+   */
+  connect(options: {
+    emitUpdate: ClientConnection["emitUpdate"];
+    client: AcpClient | null;
+  }): string {
+    const id = randomUUID();
+    this.connections.set(id, { id, emitUpdate: options.emitUpdate, client: options.client, capabilities: {} });
+    return id;
+  }
+
+  /** Whether a session running in this adapter uses `filePath`. */
+  isSessionFileLive(filePath: string): boolean {
+    for (const session of this.sessions.values()) {
+      if (session.sessionFile === filePath) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  setClientCapabilities(connectionId: string, capabilities: ClientCapabilities | undefined): void {
+    const connection = this.connections.get(connectionId);
+    if (connection) {
+      connection.capabilities = capabilities ?? {};
+    }
+  }
+
+  /**
+   * Forget a closed connection. Sessions it controlled keep running detached
+   * until a client attaches again or an observer prompts.
+   */
+  disconnect(connectionId: string): void {
+    this.connections.delete(connectionId);
+    for (const session of this.sessions.values()) {
+      session.observerIds.delete(connectionId);
+      if (session.connectionId === connectionId) {
+        session.connectionId = undefined;
+      }
+    }
+  }
+
+  /**
+   * Make `connectionId` the controlling client of a session it observes. The
+   * previous controller, if still connected, becomes an observer; a running
+   * turn keeps going and its permission requests go to the new controller.
+   */
+  takeControl(connectionId: string, sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Unknown session: ${sessionId}`);
+    }
+    if (session.connectionId === connectionId) {
+      this.emitControlNotice(session, connectionId, "You already control this session.");
+      return;
+    }
+    const previous = this.isControlledElsewhere(session, connectionId) ? session.connectionId : undefined;
+    if (previous && !session.observerIds.has(connectionId)) {
+      throw new Error(`Session ${sessionId} is not attached to this client; load or resume it first`);
+    }
+    this.claimSession(session, connectionId);
+    if (previous) {
+      session.observerIds.add(previous);
+      this.emitControlNotice(session, previous, "Another client took control of this session; you are now observing.");
+    }
+    logInfo("session control transferred", { sessionId, connectionId, previous });
+    this.emitControlNotice(session, connectionId, "You now control this session.");
+  }
 
-  setEmitter(emitUpdate: (params: { sessionId: string; update: SessionUpdate }) => void): void {
-    this.emitUpdate = emitUpdate;
+  /** Point-in-time view of connections and live sessions for the status endpoint. */
+  snapshot(): AdapterSnapshot {
+    const now = Date.now();
+    return {
+      pid: process.pid,
+      uptimeMs: Math.round(process.uptime() * 1000),
+      connections: this.connections.size,
+      sessions: [...this.sessions.values()].map((session) =>
+        snapshotSession(session, this.getConnection(session) !== undefined, now)
+      ),
+    };
   }
 
-  async createSession(cwd: string, mcpServers: unknown[]): Promise<{
+  async createSession(connectionId: string, cwd: string, mcpServers: unknown[]): Promise<{
     sessionId: string;
+    modes: SessionModeState;
     models: SessionModelState | null;
     configOptions: SessionConfigOption[] | null;
   }> {
     const sessionId = randomUUID();
-    const state = this.spawnSession(sessionId, cwd, mcpServers);
+    const profile = await resolveProfile(cwd);
+    const state = this.spawnSession(connectionId, sessionId, cwd, mcpServers, profile);
+    state.connectionId = connectionId;
     this.sessions.set(sessionId, state);
     await captureSessionFile(state, this.sessionMap, logWarn);
+    await applyProfileDefaults(state, profile);
     const { models, configOptions } = await refreshSessionConfig(state);
     this.queueSessionInitUpdates(state, configOptions);
-    return { sessionId, models, configOptions };
+    return { sessionId, modes: getModeState(state), models, configOptions };
   }
 
-  async loadSession(sessionId: string, cwd: string, mcpServers: unknown[]): Promise<{
+  async loadSession(connectionId: string, sessionId: string, cwd: string, mcpServers: unknown[]): Promise<{
+    modes: SessionModeState;
     models: SessionModelState | null;
     configOptions: SessionConfigOption[] | null;
   }> {
+    const live = this.sessions.get(sessionId);
+    if (live) {
+      return await this.reattachSession(connectionId, live, true);
+    }
     const sessionPath = await resolveSessionPath(this.sessions, this.sessionMap, sessionId);
     if (!sessionPath) {
       throw new Error(`Unknown session: ${sessionId}`);
     }
-    const state = await this.createSessionFromPath(sessionId, cwd, sessionPath, mcpServers);
-    const { models, configOptions } = await refreshSessionConfig(state);
-    this.queueSessionInitUpdates(state, configOptions);
-    void this.runtime.replayHistory(state);
-    return { models, configOptions };
+    // History comes straight from the session file; pi is only spawned on the first prompt.
+    const transcript = await readSessionTranscript(sessionPath);
+    const state = await this.createSessionFromPath(connectionId, sessionId, cwd, sessionPath, mcpServers);
+    const models = seedSessionConfig(state, transcript);
+    this.runtime.replayMessages(state.id, transcript.messages);
+    this.queueSessionInitUpdates(state, null);
+    return { modes: getModeState(state), models, configOptions: null };
   }
 
-  async resumeSession(sessionId: string, cwd: string, mcpServers: unknown[]): Promise<{
+  async resumeSession(connectionId: string, sessionId: string, cwd: string, mcpServers: unknown[]): Promise<{
+    modes: SessionModeState;
     models: SessionModelState | null;
     configOptions: SessionConfigOption[] | null;
   }> {
+    const live = this.sessions.get(sessionId);
+    if (live) {
+      return await this.reattachSession(connectionId, live, false);
+    }
     const sessionPath = await resolveSessionPath(this.sessions, this.sessionMap, sessionId);
     if (!sessionPath) {
       throw new Error(`Unknown session: ${sessionId}`);
     }
-    const state = await this.createSessionFromPath(sessionId, cwd, sessionPath, mcpServers);
+    const state = await this.createSessionFromPath(connectionId, sessionId, cwd, sessionPath, mcpServers);
+    await state.pi.start();
     const { models, configOptions } = await refreshSessionConfig(state);
     this.queueSessionInitUpdates(state, configOptions);
-    return { models, configOptions };
+    return { modes: getModeState(state), models, configOptions };
   }
 
-  async forkSession(sourceSessionId: string, cwd: string, mcpServers: unknown[]): Promise<{
+  async forkSession(connectionId: string, sourceSessionId: string, cwd: string, mcpServers: unknown[]): Promise<{
     sessionId: string;
+    modes: SessionModeState;
     models: SessionModelState | null;
     configOptions: SessionConfigOption[] | null;
   }> {
@@ -90,36 +249,67 @@ export class SessionManager {
     }
     const forked = await createForkedSessionFile(sourcePath, cwd);
     await this.sessionMap.set(forked.sessionId, forked.filePath);
-    const state = await this.createSessionFromPath(forked.sessionId, cwd, forked.filePath, mcpServers);
+    const state = await this.createSessionFromPath(connectionId, forked.sessionId, cwd, forked.filePath, mcpServers);
+    await state.pi.start();
     const { models, configOptions } = await refreshSessionConfig(state);
+    await this.runtime.replayHistory(state);
     this.queueSessionInitUpdates(state, configOptions);
-    void this.runtime.replayHistory(state);
-    return { sessionId: forked.sessionId, models, configOptions };
+    return { sessionId: forked.sessionId, modes: getModeState(state), models, configOptions };
   }
 
-  async listSessions(_params?: ListSessionsRequest): Promise<SessionInfo[]> {
-    const { sessions, map } = await scanSessions({ cwd: null });
+  async listSessions(params?: ListSessionsRequest): Promise<{ sessions: SessionInfo[]; nextCursor: string | null }> {
+    if (params?.cwd && !path.isAbsolute(params.cwd)) {
+      throw new Error(`cwd must be an absolute path: ${params.cwd}`);
+    }
+    // Label filters ride in `_meta`: `{ tag?: string, includeArchived?: boolean }`
+    const filters = (params?._meta ?? {}) as { tag?: unknown; includeArchived?: unknown };
+    const tag = typeof filters.tag === "string" ? normalizeTag(filters.tag) : null;
+    if (typeof filters.tag === "string" && !tag) {
+      throw new Error(`Invalid tag: ${filters.tag}`);
+    }
+    const { sessions, map } = await scanSessions({
+      cwd: params?.cwd ?? null,
+      tag,
+      archived: filters.includeArchived === true ? "include" : "hide",
+    });
     const mapEntries = Object.fromEntries(map.entries());
     if (Object.keys(mapEntries).length > 0) {
       await this.sessionMap.merge(mapEntries);
     }
-    return sessions.map((session) => ({
-      sessionId: session.sessionId,
-      cwd: session.cwd,
-      title: session.title ?? null,
-      updatedAt: session.updatedAt ?? null,
-      _meta: { messageCount: session.messageCount },
-    }));
+    const { page, nextCursor } = pageSessions(sessions, params?.cursor, LIST_PAGE_SIZE);
+    return {
+      sessions: page.map((session) => ({
+        sessionId: session.sessionId,
+        cwd: session.cwd,
+        title: session.title ?? null,
+        updatedAt: session.updatedAt ?? null,
+        _meta: { messageCount: session.messageCount, tags: session.tags, archived: session.archived },
+      })),
+      nextCursor,
+    };
   }
 
-  async prompt(sessionId: string, prompt: ContentBlock[]): Promise<StopReason> {
-    const session = this.getSession(sessionId);
-    if (session.pendingPrompt) {
-      throw new Error("Prompt already in progress");
+  async searchSessions(params: { query: string; cwd?: string; limit?: number }): Promise<SessionSearchResult[]> {
+    if (params.cwd && !path.isAbsolute(params.cwd)) {
+      throw new Error(`cwd must be an absolute path: ${params.cwd}`);
+    }
+    return await sessionSearch.search(params.query, { cwd: params.cwd ?? null, limit: params.limit });
+  }
+
+  async prompt(connectionId: string, sessionId: string, prompt: ContentBlock[]): Promise<StopReason> {
+    if (isControlCommand(prompt)) {
+      this.takeControl(connectionId, sessionId);
+      return "end_turn";
+    }
+    const session = this.getSession(connectionId, sessionId);
+    this.pool.touch(session);
+    if (!session.configOptions) {
+      await refreshConfigOptions(session, this.emitUpdate);
     }
     if (await this.runtime.handleSlashCommand(session, prompt)) {
       return "end_turn";
     }
+    await session.commandQueue;
     const { message, images } = this.runtime.buildPrompt(prompt);
     const inferredTitle = session.title ?? inferTitleFromPrompt(prompt);
     if (inferredTitle && session.title !== inferredTitle) {
@@ -133,6 +323,16 @@ export class SessionManager {
         },
       });
     }
+    if (session.pendingPrompt) {
+      // A turn is running: hand the prompt to pi as a steer or follow-up message
+      // and resolve it once pi has moved on from it.
+      const streamingBehavior = session.promptQueueBehavior;
+      session.pi.send({ type: "prompt", message, images: images.length > 0 ? images : undefined, streamingBehavior });
+      return await new Promise((resolve, reject) => {
+        const wrapped = withHeartbeat(session, this.emitUpdate, resolve, reject);
+        session.queuedPrompts.push({ resolve: wrapped.resolve, reject: wrapped.reject, behavior: streamingBehavior });
+      });
+    }
     this.runtime.beginPrompt(session);
     session.pi.send({ type: "prompt", message, images: images.length > 0 ? images : undefined });
     return await new Promise((resolve, reject) => {
@@ -141,21 +341,24 @@ export class SessionManager {
     });
   }
 
-  async cancel(sessionId: string): Promise<void> {
+  async cancel(connectionId: string, sessionId: string): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       return;
     }
-    session.pi.send({ type: "abort" });
-    this.runtime.cancelPrompt(session);
-    if (session.pendingPrompt) {
-      session.pendingPrompt.resolve("cancelled");
-      session.pendingPrompt = undefined;
+    if (this.isControlledElsewhere(session, connectionId)) {
+      logDebug("ignoring cancel from a client without control", { sessionId, connectionId });
+      return;
     }
+    if (session.pi.running) {
+      session.pi.send({ type: "abort" });
+    }
+    this.runtime.cancelPrompt(session);
+    settlePrompts(session, "cancelled");
   }
 
-  async setModel(sessionId: string, modelId: string): Promise<void> {
-    const session = this.getSession(sessionId);
+  async setModel(connectionId: string, sessionId: string, modelId: string): Promise<void> {
+    const session = this.getSession(connectionId, sessionId);
     const resolved = resolveModelId(session, modelId);
     if (!resolved) {
       throw new Error(`Unknown model: ${modelId}`);
@@ -167,8 +370,36 @@ export class SessionManager {
     await refreshConfigOptions(session, this.emitUpdate);
   }
 
-  async setConfigOption(params: SetSessionConfigOptionRequest): Promise<{ configOptions: SessionConfigOption[] }> {
-    const session = this.getSession(params.sessionId);
+  async setMode(connectionId: string, sessionId: string, modeId: string): Promise<void> {
+    const session = this.getSession(connectionId, sessionId);
+    await setSessionMode(session, this.emitUpdate, modeId);
+  }
+
+  /**
+   * Rename a session. Live sessions go through their controlling client's
+   * claim like any other change; others just get the entry in their file.
+   */
+  async setTitle(connectionId: string, sessionId: string, title: string): Promise<string> {
+    if (this.sessions.has(sessionId)) {
+      const session = this.getSession(connectionId, sessionId);
+      return await setSessionTitle(session, title, (id, update) => this.emitUpdate({ sessionId: id, update }));
+    }
+    const normalized = normalizeTitle(title);
+    if (!normalized) {
+      throw new Error("Title must not be empty");
+    }
+    const sessionPath = await resolveSessionPath(this.sessions, this.sessionMap, sessionId);
+    if (!sessionPath || !(await appendTitleEntry(sessionPath, normalized))) {
+      throw new Error(`Unknown session: ${sessionId}`);
+    }
+    return normalized;
+  }
+
+  async setConfigOption(
+    connectionId: string,
+    params: SetSessionConfigOptionRequest
+  ): Promise<{ configOptions: SessionConfigOption[] }> {
+    const session = this.getSession(connectionId, params.sessionId);
     switch (params.configId) {
       case "thinking_level":
       case "reasoning_effort":
@@ -180,6 +411,9 @@ export class SessionManager {
       case "follow_up_mode":
         await setModeOption(session, this.emitUpdate, "set_follow_up_mode", "follow-up mode", params.value as "all" | "one-at-a-time");
         break;
+      case "queued_prompts":
+        await setPromptQueueBehavior(session, this.emitUpdate, params.value);
+        break;
       case "auto_compaction":
         await setToggleOption(session, this.emitUpdate, "set_auto_compaction", "auto compaction", params.value === "on");
         break;
@@ -187,7 +421,7 @@ export class SessionManager {
         await setToggleOption(session, this.emitUpdate, "set_auto_retry", "auto retry", params.value === "on");
         break;
       case "model":
-        await this.setModel(params.sessionId, params.value);
+        await this.setModel(connectionId, params.sessionId, params.value);
         break;
       default:
         throw new Error(`Unknown config option: ${params.configId}`);
@@ -195,61 +429,174 @@ export class SessionManager {
     return { configOptions: getConfigOptions(session) };
   }
 
-  private getSession(sessionId: string): SessionState {
+  private getSession(connectionId: string, sessionId: string): SessionState {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error(`Unknown session: ${sessionId}`);
     }
+    if (this.isControlledElsewhere(session, connectionId)) {
+      throw new Error(
+        session.observerIds.has(connectionId)
+          ? `Session ${sessionId} is read-only for observers; send /control to take over`
+          : `Session ${sessionId} is attached to another client`
+      );
+    }
+    this.claimSession(session, connectionId);
     return session;
   }
 
-  private spawnSession(sessionId: string, cwd: string, mcpServers: unknown[]): SessionState {
+  private claimSession(session: SessionState, connectionId: string): void {
+    session.observerIds.delete(connectionId);
+    session.connectionId = connectionId;
+  }
+
+  private isControlledElsewhere(session: SessionState, connectionId: string): boolean {
+    return Boolean(session.connectionId && session.connectionId !== connectionId && this.connections.has(session.connectionId));
+  }
+
+  private getConnection(session: SessionState): ClientConnection | undefined {
+    return session.connectionId ? this.connections.get(session.connectionId) : undefined;
+  }
+
+  /**
+   * Attach a connection to a session that is still live in this process, e.g. a
+   * client reconnecting to `serve`. If another connected client controls the
+   * session, the new one joins as an observer. A running turn keeps going.
+   */
+  private async reattachSession(connectionId: string, session: SessionState, replay: boolean): Promise<{
+    modes: SessionModeState;
+    models: SessionModelState | null;
+    configOptions: SessionConfigOption[] | null;
+  }> {
+    if (this.isControlledElsewhere(session, connectionId)) {
+      session.observerIds.add(connectionId);
+      logInfo("client joined as observer", { sessionId: session.id, connectionId });
+    } else {
+      this.claimSession(session, connectionId);
+    }
+    if (replay) {
+      await this.replayHistoryTo(connectionId, session);
+    }
+    const { models, configOptions } = await refreshSessionConfig(session);
+    // Only the joining client needs the initial state; the others already have it.
+    this.queueSessionInitUpdates(session, configOptions, connectionId);
+    return { modes: getModeState(session), models, configOptions };
+  }
+
+  private async replayHistoryTo(connectionId: string, session: SessionState): Promise<void> {
+    if (!session.sessionFile) {
+      return;
+    }
+    let transcript: SessionTranscript;
+    try {
+      transcript = await readSessionTranscript(session.sessionFile);
+    } catch (error) {
+      logWarn(`history replay failed: ${(error as Error).message}`, { sessionId: session.id });
+      return;
+    }
+    // replayMessages emits synchronously, so no live update can slip in between.
+    this.replayTarget = { sessionId: session.id, connectionId };
+    try {
+      this.runtime.replayMessages(session.id, transcript.messages);
+    } finally {
+      this.replayTarget = undefined;
+    }
+  }
+
+  /** Tell one client its role in a session, with an optional message. */
+  private emitControlNotice(session: SessionState, connectionId: string, text?: string): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) {
+      return;
+    }
+    if (text) {
+      connection.emitUpdate({
+        sessionId: session.id,
+        update: { sessionUpdate: "agent_message_chunk", content: { type: "text", text } },
+      });
+    }
+    connection.emitUpdate({
+      sessionId: session.id,
+      update: {
+        sessionUpdate: "session_info_update",
+        _meta: { control: { role: session.connectionId === connectionId ? "controller" : "observer" } },
+      },
+    });
+  }
+
+  private spawnSession(
+    connectionId: string,
+    sessionId: string,
+    cwd: string,
+    mcpServers: unknown[],
+    profile: ResolvedProfile
+  ): SessionState {
     const env = buildMcpEnv(mcpServers);
     const state = spawnSessionState({
       sessionId,
       cwd,
       env,
+      profile,
       mcpServers,
-      onLine: (session, line) => this.runtime.handlePiLine(session, line),
+      clientTerminal: this.connections.get(connectionId)?.capabilities.terminal === true,
+      onLine: (session, line) => {
+        this.pool.touch(session);
+        this.runtime.handlePiLine(session, line);
+      },
       onError: (session, error) => {
-        if (session.pendingPrompt) {
-          session.pendingPrompt.reject(error);
-          session.pendingPrompt = undefined;
-        }
+        failPrompts(session, error);
       },
+      onExit: (session, info) => this.supervisor.handleExit(session, info),
     });
+    state.pi.onSpawn(() => this.pool.register(state));
     this.runtime.initSessionStatus(state);
     return state;
   }
 
   private async createSessionFromPath(
+    connectionId: string,
     sessionId: string,
     cwd: string,
     sessionPath: string,
     mcpServers: unknown[]
   ): Promise<SessionState> {
-    const state = this.spawnSession(sessionId, cwd, mcpServers);
+    const state = this.spawnSession(connectionId, sessionId, cwd, mcpServers, await resolveProfile(cwd));
     state.sessionFile = sessionPath;
+    state.connectionId = connectionId;
     this.sessions.set(sessionId, state);
     await this.sessionMap.set(sessionId, sessionPath);
-    const response = await state.pi.request({ type: "switch_session", sessionPath });
-    if (!response.success) {
-      throw new Error(response.error ?? "Failed to switch session");
-    }
     return state;
   }
 
-  private queueSessionInitUpdates(session: SessionState, configOptions: SessionConfigOption[] | null): void {
+  /** Queue the initial state updates, for every subscriber or just `connectionId`. */
+  private queueSessionInitUpdates(
+    session: SessionState,
+    configOptions: SessionConfigOption[] | null,
+    connectionId?: string
+  ): void {
+    const emitUpdate = connectionId
+      ? (params: { sessionId: string; update: SessionUpdate }) => this.connections.get(connectionId)?.emitUpdate(params)
+      : this.emitUpdate;
     queueSessionInitUpdates({
       sessions: this.sessions,
       session,
-      emitUpdate: this.emitUpdate,
+      emitUpdate,
       configOptions,
-      onInitialInfo: (target) => emitInitialSessionInfo(target, this.emitUpdate),
+      onInitialInfo: async (target) => {
+        if (connectionId) {
+          this.emitControlNotice(target, connectionId);
+        }
+        await emitInitialSessionInfo(target, emitUpdate);
+      },
     });
   }
 }
 
+function isControlCommand(prompt: ContentBlock[]): boolean {
+  const commandText = extractCommandText(prompt);
+  return Boolean(commandText && parseCommand(commandText)?.command === "control");
+}
+
 export async function ensureSessionInfo(session: SessionState): Promise<void> {
   if (!session.sessionFile) {
     return;
@@ -1,13 +1,47 @@
-import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import { access, copyFile, mkdir, open, readFile, rename, rm } from "node:fs/promises";
+import os from "node:os";
 import path from "node:path";
+import { logInfo, logWarn } from "../../logger";
+import { withFileLock } from "./lock";
 
-export type SessionMap = Record<string, { piSessionPath: string }>;
+export type SessionMapEntry = {
+  piSessionPath: string;
+  updatedAt?: string;
+  /** Set with `/tag`; only kept on entries keyed by pi's session id. */
+  tags?: string[];
+  archived?: boolean;
+};
 
+export type SessionMap = Record<string, SessionMapEntry>;
+
+type SessionMapFile = { version: number; sessions: SessionMap };
+
+export const SESSION_MAP_VERSION = 1;
+
+/**
+ * Entries are only collected once their session file has been missing for
+ * this long: pi creates the file lazily, and another adapter may have mapped
+ * a session that has not written anything yet.
+ */
+const GC_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ACP session id to pi session file, shared by every pi-acp process. Writes
+ * take an inter-process lock and replace the file atomically; the previous
+ * good copy is kept as `<file>.bak` and used if the main file is unreadable.
+ */
 export class SessionMapStore {
   private readonly mapPath: string;
+  private readonly backupPath: string;
+  private readonly lockPath: string;
+  /** Serializes this process's updates so they don't poll each other's lock. */
+  private queue: Promise<unknown> = Promise.resolve();
 
   constructor(mapPath: string) {
     this.mapPath = mapPath;
+    this.backupPath = `${mapPath}.bak`;
+    this.lockPath = `${mapPath}.lock`;
   }
 
   async get(sessionId: string): Promise<string | null> {
@@ -16,10 +50,40 @@ export class SessionMapStore {
   }
 
   async set(sessionId: string, piSessionPath: string): Promise<void> {
-    const map = await this.read();
-    map[sessionId] = { piSessionPath };
-    await mkdir(path.dirname(this.mapPath), { recursive: true });
-    await writeFile(this.mapPath, JSON.stringify(map, null, 2));
+    await this.update((map) => {
+      map[sessionId] = { ...map[sessionId], piSessionPath, updatedAt: new Date().toISOString() };
+      return true;
+    });
+  }
+
+  /** Replace a session's tags and archived flag, leaving the rest of its entry as it was. */
+  async setLabels(sessionId: string, piSessionPath: string, labels: { tags?: string[]; archived?: boolean }): Promise<void> {
+    await this.update((map) => {
+      const entry: SessionMapEntry = { ...map[sessionId], piSessionPath, updatedAt: new Date().toISOString() };
+      if (labels.tags !== undefined) {
+        entry.tags = labels.tags.length > 0 ? labels.tags : undefined;
+      }
+      if (labels.archived !== undefined) {
+        entry.archived = labels.archived || undefined;
+      }
+      map[sessionId] = entry;
+      return true;
+    });
+  }
+
+  /** Drop every entry that points at `piSessionPath`, returning their session ids. */
+  async removePath(piSessionPath: string): Promise<string[]> {
+    const removed: string[] = [];
+    await this.update((map) => {
+      for (const [sessionId, entry] of Object.entries(map)) {
+        if (entry.piSessionPath === piSessionPath) {
+          delete map[sessionId];
+          removed.push(sessionId);
+        }
+      }
+      return removed.length > 0;
+    });
+    return removed;
   }
 
   async getAll(): Promise<SessionMap> {
@@ -27,34 +91,158 @@ export class SessionMapStore {
   }
 
   async setAll(map: SessionMap): Promise<void> {
-    await mkdir(path.dirname(this.mapPath), { recursive: true });
-    await writeFile(this.mapPath, JSON.stringify(map, null, 2));
+    await this.update((current) => {
+      for (const sessionId of Object.keys(current)) {
+        delete current[sessionId];
+      }
+      Object.assign(current, map);
+      return true;
+    });
   }
 
   async merge(entries: Record<string, string>): Promise<void> {
-    const map = await this.read();
-    let changed = false;
-    for (const [sessionId, piSessionPath] of Object.entries(entries)) {
-      if (map[sessionId]?.piSessionPath === piSessionPath) {
-        continue;
+    await this.update((map) => {
+      let changed = false;
+      const updatedAt = new Date().toISOString();
+      for (const [sessionId, piSessionPath] of Object.entries(entries)) {
+        if (map[sessionId]?.piSessionPath === piSessionPath) {
+          continue;
+        }
+        map[sessionId] = { ...map[sessionId], piSessionPath, updatedAt };
+        changed = true;
       }
-      map[sessionId] = { piSessionPath };
-      changed = true;
-    }
-    if (!changed) {
-      return;
+      return changed;
+    });
+  }
+
+  /** Drop entries whose session file has been gone for longer than the grace period. */
+  async collectGarbage(): Promise<number> {
+    let removed = 0;
+    await this.update(async (map) => {
+      const cutoff = Date.now() - GC_GRACE_MS;
+      for (const [sessionId, entry] of Object.entries(map)) {
+        const updatedAt = entry.updatedAt ? Date.parse(entry.updatedAt) : 0;
+        if (updatedAt > cutoff || (await exists(entry.piSessionPath))) {
+          continue;
+        }
+        delete map[sessionId];
+        removed += 1;
+      }
+      return removed > 0;
+    });
+    if (removed > 0) {
+      logInfo(`removed ${removed} session map entr${removed === 1 ? "y" : "ies"} with missing files`);
     }
-    await mkdir(path.dirname(this.mapPath), { recursive: true });
-    await writeFile(this.mapPath, JSON.stringify(map, null, 2));
+    return removed;
+  }
+
+  /**
+   * Read-modify-write under the lock. `mutate` edits the map in place and
+   * returns whether anything changed; unchanged maps are not rewritten.
+   */
+  private update(mutate: (map: SessionMap) => boolean | Promise<boolean>): Promise<void> {
+    const run = this.queue.then(async () => {
+      // The lock file lives next to the map, so on a first run its directory is made here
+      await mkdir(path.dirname(this.lockPath), { recursive: true });
+      await withFileLock(this.lockPath, async () => {
+        const { map, version } = await this.load();
+        if (version > SESSION_MAP_VERSION) {
+          throw new Error(`${this.mapPath} was written by a newer pi-acp (version ${version}); not modifying it`);
+        }
+        if (await mutate(map)) {
+          await this.write(map);
+        }
+      });
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
   }
 
   private async read(): Promise<SessionMap> {
+    return (await this.load()).map;
+  }
+
+  private async load(): Promise<{ map: SessionMap; version: number }> {
+    const primary = await readMapFile(this.mapPath);
+    if (primary.ok) {
+      return primary.value;
+    }
+    if (primary.reason === "missing") {
+      return { map: {}, version: SESSION_MAP_VERSION };
+    }
+    const backup = await readMapFile(this.backupPath);
+    if (backup.ok) {
+      logWarn(`session map ${this.mapPath} is unreadable (${primary.reason}); using ${this.backupPath}`);
+      return backup.value;
+    }
+    logWarn(`session map ${this.mapPath} is unreadable (${primary.reason}) and has no usable backup; starting empty`);
+    return { map: {}, version: SESSION_MAP_VERSION };
+  }
+
+  /** Write to a temp file, flush it, keep the current file as the backup, then rename over it. */
+  private async write(map: SessionMap): Promise<void> {
+    await mkdir(path.dirname(this.mapPath), { recursive: true });
+    const data: SessionMapFile = { version: SESSION_MAP_VERSION, sessions: map };
+    const tempPath = `${this.mapPath}.${randomUUID()}.tmp`;
+    const handle = await open(tempPath, "w", 0o600);
+    try {
+      await handle.writeFile(JSON.stringify(data, null, 2));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
     try {
-      const raw = await readFile(this.mapPath, "utf8");
-      const data = JSON.parse(raw) as SessionMap;
-      return data ?? {};
-    } catch {
-      return {};
+      if ((await readMapFile(this.mapPath)).ok) {
+        await copyFile(this.mapPath, this.backupPath);
+      }
+      await rename(tempPath, this.mapPath);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
     }
   }
 }
+
+/** The map shared by the session manager, listings and the session management commands. */
+export const sessionMapStore = new SessionMapStore(path.join(os.homedir(), ".pi", "pi-acp", "session-map.json"));
+
+type ReadResult =
+  | { ok: true; value: { map: SessionMap; version: number } }
+  | { ok: false; reason: string };
+
+async function readMapFile(filePath: string): Promise<ReadResult> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, "utf8");
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    return { ok: false, reason: code === "ENOENT" ? "missing" : (error as Error).message };
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    return { ok: false, reason: `invalid JSON: ${(error as Error).message}` };
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { ok: false, reason: "not a JSON object" };
+  }
+  const file = data as Partial<SessionMapFile>;
+  if (typeof file.version !== "number") {
+    // Unversioned maps from before the schema version: the object is the map itself
+    return { ok: true, value: { map: data as SessionMap, version: 0 } };
+  }
+  if (!file.sessions || typeof file.sessions !== "object") {
+    return { ok: false, reason: "missing sessions" };
+  }
+  return { ok: true, value: { map: file.sessions, version: file.version } };
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,123 +1,112 @@
 import { randomUUID } from "node:crypto";
-import { readFile, stat, writeFile } from "node:fs/promises";
+import { readFile, writeFile } from "node:fs/promises";
 import path from "node:path";
-import { getSessionDirForCwd, listSessionFiles } from "./paths";
-import { extractMessageText, normalizeCwd, normalizeTitle, safeJsonParse } from "./utils";
+import { sessionMapStore } from "./map";
+import { getSessionDirForCwd } from "./paths";
+import { sessionIndex } from "./session-index";
+import { normalizeCwd, safeJsonParse } from "./utils";
 
 export type SessionFileInfo = {
   sessionId: string;
   cwd: string;
   title?: string;
+  /** True when the title comes from a `session_info` entry rather than the first prompt. */
+  named: boolean;
   updatedAt?: string;
   filePath: string;
   messageCount: number;
   modifiedMs: number;
 };
 
-export async function scanSessions(options?: { cwd?: string | null }): Promise<{
-  sessions: SessionFileInfo[];
+/** A session file with the labels set through the session management commands. */
+export type ListedSession = SessionFileInfo & { tags: string[]; archived: boolean };
+
+/**
+ * Every pi session, newest first. `tag` keeps sessions carrying that tag and
+ * `archived` picks archived sessions (`"only"`) or hides them (`"hide"`);
+ * by default both are included. `map` holds every session file in `cwd`
+ * whatever its labels, so archived sessions can still be looked up.
+ */
+export async function scanSessions(options?: {
+  cwd?: string | null;
+  tag?: string | null;
+  archived?: "include" | "hide" | "only";
+}): Promise<{
+  sessions: ListedSession[];
   map: Map<string, string>;
 }> {
-  const files = await listSessionFiles();
-  const results = await Promise.all(files.map((file) => readSessionInfo(file)));
+  const [results, labels] = await Promise.all([sessionIndex.list(), sessionMapStore.getAll()]);
 
-  const sessions: SessionFileInfo[] = [];
+  const sessions: ListedSession[] = [];
   const map = new Map<string, string>();
   const targetCwd = normalizeCwd(options?.cwd ?? null);
+  const archivedFilter = options?.archived ?? "include";
 
   for (const info of results) {
-    if (!info) {
-      continue;
-    }
     if (targetCwd && normalizeCwd(info.cwd) !== targetCwd) {
       continue;
     }
-    sessions.push(info);
     map.set(info.sessionId, info.filePath);
+    const entry = labels[info.sessionId];
+    const listed: ListedSession = { ...info, tags: entry?.tags ?? [], archived: entry?.archived === true };
+    if (options?.tag && !listed.tags.includes(options.tag)) {
+      continue;
+    }
+    if ((archivedFilter === "hide" && listed.archived) || (archivedFilter === "only" && !listed.archived)) {
+      continue;
+    }
+    sessions.push(listed);
   }
 
-  sessions.sort((a, b) => b.modifiedMs - a.modifiedMs);
+  // Newest first; the id breaks ties so pages stay stable between requests
+  sessions.sort((a, b) => b.modifiedMs - a.modifiedMs || a.sessionId.localeCompare(b.sessionId));
   return { sessions, map };
 }
 
-export async function readSessionInfo(filePath: string): Promise<SessionFileInfo | null> {
-  try {
-    const content = await readFile(filePath, "utf8");
-    const lines = content.split("\n").filter((line) => line.trim().length > 0);
-    if (lines.length === 0) {
-      return null;
+/**
+ * Slice a `scanSessions` result after `cursor`. Cursors name the last session
+ * of the previous page rather than an offset, so sessions added in the
+ * meantime don't shift later pages.
+ */
+export function pageSessions<T extends SessionFileInfo>(
+  sessions: T[],
+  cursor: string | null | undefined,
+  pageSize: number
+): { page: T[]; nextCursor: string | null } {
+  let start = 0;
+  if (cursor) {
+    const after = decodeCursor(cursor);
+    start = sessions.findIndex(
+      (session) =>
+        session.modifiedMs < after.modifiedMs ||
+        (session.modifiedMs === after.modifiedMs && session.sessionId.localeCompare(after.sessionId) > 0)
+    );
+    if (start === -1) {
+      start = sessions.length;
     }
+  }
+  const page = sessions.slice(start, start + pageSize);
+  const last = page[page.length - 1];
+  const nextCursor =
+    last && start + pageSize < sessions.length
+      ? Buffer.from(JSON.stringify({ modifiedMs: last.modifiedMs, sessionId: last.sessionId })).toString("base64url")
+      : null;
+  return { page, nextCursor };
+}
 
-    const header = safeJsonParse(lines[0]);
-    if (!header || typeof header !== "object") {
-      return null;
-    }
-    const headerObj = header as Record<string, unknown>;
-    if (headerObj.type !== "session" || typeof headerObj.id !== "string") {
-      return null;
-    }
-
-    const stats = await stat(filePath);
-    const rawCwd = typeof headerObj.cwd === "string" ? headerObj.cwd : "";
-    const cwd = normalizeCwd(rawCwd) ?? rawCwd;
-    let title: string | undefined;
-    let firstUserMessage: string | undefined;
-    let updatedAt: string | undefined = typeof headerObj.timestamp === "string" ? headerObj.timestamp : undefined;
-    let messageCount = 0;
-
-    for (const line of lines.slice(1)) {
-      const entry = safeJsonParse(line);
-      if (!entry || typeof entry !== "object") {
-        continue;
-      }
-
-      const entryObj = entry as Record<string, unknown>;
-      if (typeof entryObj.timestamp === "string") {
-        updatedAt = entryObj.timestamp;
-      }
-
-      if (entryObj.type === "session_info" && typeof entryObj.name === "string") {
-        const name = normalizeTitle(entryObj.name);
-        if (name) {
-          title = name;
-        }
-      }
-
-      if (entryObj.type !== "message" || !entryObj.message) {
-        continue;
-      }
-
-      messageCount++;
-
-      const messageObj = entryObj.message as Record<string, unknown>;
-      const role = typeof messageObj.role === "string" ? messageObj.role : "";
-      if (role !== "user") {
-        continue;
-      }
-
-      if (!firstUserMessage) {
-        const text = extractMessageText(messageObj.content);
-        if (text) {
-          firstUserMessage = text;
-        }
-      }
-    }
-
-    const resolvedTitle = title ?? normalizeTitle(firstUserMessage);
-    const resolvedUpdatedAt = updatedAt ?? stats.mtime.toISOString();
-
-    return {
-      sessionId: headerObj.id,
-      cwd,
-      title: resolvedTitle,
-      updatedAt: resolvedUpdatedAt,
-      filePath,
-      messageCount,
-      modifiedMs: stats.mtimeMs,
-    };
-  } catch {
-    return null;
+function decodeCursor(cursor: string): { modifiedMs: number; sessionId: string } {
+  const data = safeJsonParse(Buffer.from(cursor, "base64url").toString("utf8")) as {
+    modifiedMs?: unknown;
+    sessionId?: unknown;
+  } | null;
+  if (!data || typeof data.modifiedMs !== "number" || typeof data.sessionId !== "string") {
+    throw new Error(`Invalid cursor: ${cursor}`);
   }
+  return { modifiedMs: data.modifiedMs, sessionId: data.sessionId };
+}
+
+export async function readSessionInfo(filePath: string): Promise<SessionFileInfo | null> {
+  return await sessionIndex.read(filePath);
 }
 
 export async function createForkedSessionFile(
@@ -0,0 +1,59 @@
+import type { SessionModeState, SessionUpdate } from "@agentclientprotocol/sdk";
+import { formatModeCommand } from "../../pi/extensions/session-mode";
+import { SESSION_MODES, type SessionModeId } from "../config/consts";
+import type { SessionState } from "./types";
+
+type EmitUpdate = (params: { sessionId: string; update: SessionUpdate }) => void;
+
+export function getModeState(session: SessionState): SessionModeState {
+  return {
+    currentModeId: session.modeId,
+    availableModes: SESSION_MODES.map((mode) => ({
+      id: mode.id,
+      name: mode.name,
+      description: mode.description,
+    })),
+  };
+}
+
+/**
+ * Whether the mode leaves `toolName` out of pi's active tools. Pi never
+ * offers such a tool to the model; the permission gate still refuses it, in
+ * case a call was already under way when the mode changed.
+ */
+/** Whether the mode asks for permission on every call of `toolName`, even after "Always allow". */
+export function isToolAlwaysAskedByMode(modeId: SessionModeId, toolName: string): boolean {
+  const askTools = SESSION_MODES.find((candidate) => candidate.id === modeId)?.askTools;
+  return askTools?.includes(toolName.toLowerCase()) ?? false;
+}
+
+export function isToolBlockedByMode(modeId: SessionModeId, toolName: string): boolean {
+  const tools = SESSION_MODES.find((candidate) => candidate.id === modeId)?.tools;
+  return tools ? !tools.includes(toolName.toLowerCase()) : false;
+}
+
+/** The session-mode extension command that applies `modeId` in pi. */
+export function modeCommand(modeId: SessionModeId): string {
+  return formatModeCommand(SESSION_MODES.find((candidate) => candidate.id === modeId)?.tools ?? null);
+}
+
+export async function setSessionMode(session: SessionState, emitUpdate: EmitUpdate, modeId: string): Promise<void> {
+  const mode = SESSION_MODES.find((candidate) => candidate.id === modeId);
+  if (!mode) {
+    throw new Error(`Unknown session mode: ${modeId}`);
+  }
+  const previous = session.modeId;
+  // Set first: the bootstrap of the next pi applies it, so a stopped pi is left stopped
+  session.modeId = mode.id;
+  if (session.pi.running) {
+    const response = await session.pi.request({ type: "prompt", message: modeCommand(mode.id) }).catch((error: Error) => {
+      session.modeId = previous;
+      throw error;
+    });
+    if (!response.success) {
+      session.modeId = previous;
+      throw new Error(response.error ?? `Failed to switch to ${mode.name} mode`);
+    }
+  }
+  emitUpdate({ sessionId: session.id, update: { sessionUpdate: "current_mode_update", currentModeId: mode.id } });
+}
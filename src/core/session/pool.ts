@@ -0,0 +1,92 @@
+import { logInfo } from "../../logger";
+import type { SessionState } from "./types";
+
+export type ProcessPoolOptions = {
+  /** Maximum number of live pi processes; 0 disables the limit. */
+  maxLiveProcesses: number;
+  /** Stop a pi process after this long without activity; 0 disables idle eviction. */
+  idleTimeoutMs: number;
+};
+
+export const DEFAULT_POOL_OPTIONS: ProcessPoolOptions = {
+  maxLiveProcesses: 8,
+  idleTimeoutMs: 30 * 60 * 1000,
+};
+
+const IDLE_CHECK_INTERVAL_MS = 60000;
+
+/**
+ * Keeps the number of live pi processes bounded. Evicted sessions keep their
+ * `SessionState`; only the child process is stopped, and the next command
+ * respawns it through the bootstrap that re-switches to the session file.
+ * Sessions are touched when their pi spawns, on each prompt and on each line
+ * pi writes; the limit is enforced when a session's pi is spawned.
+ */
+export class PiProcessPool {
+  private readonly options: ProcessPoolOptions;
+  private readonly getSessions: () => Iterable<SessionState>;
+  private readonly lastActive = new Map<string, number>();
+
+  constructor(options: ProcessPoolOptions, getSessions: () => Iterable<SessionState>) {
+    this.options = options;
+    this.getSessions = getSessions;
+    if (options.idleTimeoutMs > 0) {
+      setInterval(() => this.evictIdle(), Math.min(IDLE_CHECK_INTERVAL_MS, options.idleTimeoutMs)).unref();
+    }
+  }
+
+  /** A session's pi process was just spawned. */
+  register(session: SessionState): void {
+    this.lastActive.set(session.id, Date.now());
+    this.enforceLimit(session);
+  }
+
+  touch(session: SessionState): void {
+    this.lastActive.set(session.id, Date.now());
+  }
+
+  private enforceLimit(keep: SessionState): void {
+    const max = this.options.maxLiveProcesses;
+    if (max <= 0) {
+      return;
+    }
+    const live = [...this.getSessions()].filter((session) => session.pi.running || session === keep);
+    if (live.length <= max) {
+      return;
+    }
+    const candidates = live
+      .filter((session) => session !== keep && this.isEvictable(session))
+      .sort((a, b) => (this.lastActive.get(a.id) ?? Date.now()) - (this.lastActive.get(b.id) ?? Date.now()));
+    for (const session of candidates.slice(0, live.length - max)) {
+      this.evict(session, "process limit reached");
+    }
+  }
+
+  private evictIdle(): void {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    for (const session of this.getSessions()) {
+      // A process without an entry was spawned outside the pool's view; count it as active now
+      const lastActive = this.lastActive.get(session.id) ?? Date.now();
+      if (lastActive < cutoff && this.isEvictable(session)) {
+        this.evict(session, "idle timeout");
+      }
+    }
+  }
+
+  /** Only a pi with nothing under way: no turn, command, pi request or client terminal. */
+  private isEvictable(session: SessionState): boolean {
+    return (
+      session.pi.running &&
+      !session.pendingPrompt &&
+      session.commandsInFlight === 0 &&
+      session.pi.pendingRequestInfo.length === 0 &&
+      session.terminals.size === 0
+    );
+  }
+
+  private evict(session: SessionState, reason: string): void {
+    logInfo(`evicting pi process (${reason})`, { sessionId: session.id });
+    this.lastActive.delete(session.id);
+    session.pi.stop();
+  }
+}
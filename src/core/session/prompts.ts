@@ -0,0 +1,80 @@
+import type { StopReason } from "@agentclientprotocol/sdk";
+import type { SessionState } from "./types";
+
+/** Resolves once no turn is running, so slash commands never run in the middle of one. */
+export function waitForTurnEnd(session: SessionState): Promise<void> {
+  if (!session.pendingPrompt) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => session.turnWaiters.push(resolve));
+}
+
+/**
+ * Prompts sent while a turn is running are queued behind `pendingPrompt`.
+ * pi starts a user message for each prompt it picks up, so every user
+ * `message_start` after the first one ends the current prompt's turn and makes
+ * the next queued prompt current. pi takes steering messages before follow-ups.
+ */
+export function advancePromptQueue(session: SessionState): void {
+  const current = session.pendingPrompt;
+  if (!current) {
+    return;
+  }
+  if (!current.started) {
+    current.started = true;
+    return;
+  }
+  const steer = session.queuedPrompts.findIndex((prompt) => prompt.behavior === "steer");
+  const [next] = session.queuedPrompts.splice(steer === -1 ? 0 : steer, 1);
+  if (!next) {
+    return;
+  }
+  current.resolve("end_turn");
+  next.started = true;
+  session.pendingPrompt = next;
+}
+
+export function startPromptTimer(session: SessionState): void {
+  session.metrics.prompts += 1;
+  session.metrics.promptStartedAt = Date.now();
+}
+
+export function settlePrompts(session: SessionState, reason: StopReason): void {
+  stopPromptTimer(session);
+  const prompts = [session.pendingPrompt, ...session.queuedPrompts];
+  session.pendingPrompt = undefined;
+  session.queuedPrompts = [];
+  for (const prompt of prompts) {
+    prompt?.resolve(reason);
+  }
+  releaseTurnWaiters(session);
+}
+
+export function failPrompts(session: SessionState, error: Error): void {
+  stopPromptTimer(session);
+  const prompts = [session.pendingPrompt, ...session.queuedPrompts];
+  session.pendingPrompt = undefined;
+  session.queuedPrompts = [];
+  for (const prompt of prompts) {
+    prompt?.reject(error);
+  }
+  releaseTurnWaiters(session);
+}
+
+function releaseTurnWaiters(session: SessionState): void {
+  const waiters = session.turnWaiters;
+  session.turnWaiters = [];
+  for (const waiter of waiters) {
+    waiter();
+  }
+}
+
+function stopPromptTimer(session: SessionState): void {
+  const { metrics } = session;
+  if (metrics.promptStartedAt === undefined) {
+    return;
+  }
+  metrics.lastPromptMs = Date.now() - metrics.promptStartedAt;
+  metrics.totalPromptMs += metrics.lastPromptMs;
+  metrics.promptStartedAt = undefined;
+}
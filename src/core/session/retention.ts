@@ -0,0 +1,261 @@
+import { readdir, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { logInfo, logWarn } from "../../logger";
+import { TRASH_DIR } from "./manage";
+import { sessionMapStore } from "./map";
+import { scanSessions, type ListedSession } from "./metadata";
+import { normalizeCwd } from "./utils";
+
+/** Limits applied by `/gc`; every limit is optional and unset ones are not enforced. */
+export type RetentionPolicy = {
+  /** Remove sessions not written to for this many days, and trash older than that. */
+  maxAgeDays?: number;
+  /** Remove the oldest sessions until all of them fit in this many bytes. */
+  maxTotalBytes?: number;
+  /** The same per project (session cwd). */
+  maxProjectBytes?: number;
+  /** Keep at most this many sessions per project. */
+  maxProjectSessions?: number;
+  /** Also apply the policy when the adapter starts. */
+  runAtStartup?: boolean;
+};
+
+export type RetentionRemoval = {
+  sessionId: string;
+  cwd: string;
+  title: string | null;
+  filePath: string;
+  bytes: number;
+  reason: string;
+};
+
+export type RetentionReport = {
+  dryRun: boolean;
+  removed: RetentionRemoval[];
+  /** Trash files older than `maxAgeDays`. */
+  trashFiles: number;
+  reclaimedBytes: number;
+  /** Session bytes left after the run. */
+  remainingBytes: number;
+  skipped: { live: number; kept: number; recent: number };
+};
+
+/** Sessions tagged with this are never removed. */
+export const KEEP_TAG = "keep";
+const DAY_MS = 24 * 60 * 60 * 1000;
+/**
+ * Sessions live in another adapter process are invisible here, so any file
+ * written to this recently is treated as live too.
+ */
+const RECENT_MS = 60 * 60 * 1000;
+
+type Candidate = ListedSession & { bytes: number; protectedBy: keyof RetentionReport["skipped"] | null };
+
+/**
+ * Apply `policy` to every pi session file: first by age, then the per-project
+ * caps, then the total cap, removing the oldest sessions first. Live sessions,
+ * sessions tagged `keep` and recently written files are never removed but
+ * still count towards the size caps. Removed files are deleted, not moved to
+ * the trash, and dropped from the session map.
+ */
+export async function applyRetention(
+  policy: RetentionPolicy,
+  options: { isLive: (filePath: string) => boolean; dryRun?: boolean; now?: number }
+): Promise<RetentionReport> {
+  const now = options.now ?? Date.now();
+  const dryRun = options.dryRun ?? false;
+  const { sessions } = await scanSessions({ cwd: null });
+  const candidates: Candidate[] = [];
+  for (const session of sessions) {
+    let bytes: number;
+    try {
+      bytes = (await stat(session.filePath)).size;
+    } catch {
+      continue;
+    }
+    const protectedBy = options.isLive(session.filePath)
+      ? "live"
+      : session.tags.includes(KEEP_TAG)
+        ? "kept"
+        : now - session.modifiedMs < RECENT_MS
+          ? "recent"
+          : null;
+    candidates.push({ ...session, bytes, protectedBy });
+  }
+
+  const removals = new Map<string, RetentionRemoval>();
+  const remove = (candidate: Candidate, reason: string) => {
+    removals.set(candidate.filePath, {
+      sessionId: candidate.sessionId,
+      cwd: candidate.cwd,
+      title: candidate.title ?? null,
+      filePath: candidate.filePath,
+      bytes: candidate.bytes,
+      reason,
+    });
+  };
+  const remaining = () => candidates.filter((candidate) => !removals.has(candidate.filePath));
+
+  if (policy.maxAgeDays !== undefined) {
+    const cutoff = now - policy.maxAgeDays * DAY_MS;
+    for (const candidate of candidates) {
+      if (!candidate.protectedBy && candidate.modifiedMs < cutoff) {
+        remove(candidate, `older than ${policy.maxAgeDays} days`);
+      }
+    }
+  }
+
+  if (policy.maxProjectSessions !== undefined || policy.maxProjectBytes !== undefined) {
+    const projects = new Map<string, Candidate[]>();
+    for (const candidate of remaining()) {
+      const key = normalizeCwd(candidate.cwd) ?? candidate.cwd;
+      projects.set(key, [...(projects.get(key) ?? []), candidate]);
+    }
+    for (const project of projects.values()) {
+      enforceCap(project, policy.maxProjectSessions, policy.maxProjectBytes, "project", remove);
+    }
+  }
+
+  if (policy.maxTotalBytes !== undefined) {
+    enforceCap(remaining(), undefined, policy.maxTotalBytes, "total", remove);
+  }
+
+  const removed: RetentionRemoval[] = [];
+  for (const removal of removals.values()) {
+    if (!dryRun) {
+      try {
+        await rm(removal.filePath);
+        await sessionMapStore.removePath(removal.filePath);
+      } catch (error) {
+        logWarn(`removing session file failed: ${(error as Error).message}`, { sessionId: removal.sessionId });
+        continue;
+      }
+    }
+    removed.push(removal);
+  }
+
+  const trash = policy.maxAgeDays !== undefined ? await purgeTrash(now - policy.maxAgeDays * DAY_MS, dryRun) : { files: 0, bytes: 0 };
+  const skipped = { live: 0, kept: 0, recent: 0 };
+  for (const candidate of candidates) {
+    if (candidate.protectedBy) {
+      skipped[candidate.protectedBy] += 1;
+    }
+  }
+  const removedPaths = new Set(removed.map((removal) => removal.filePath));
+  const report: RetentionReport = {
+    dryRun,
+    removed,
+    trashFiles: trash.files,
+    reclaimedBytes: removed.reduce((sum, removal) => sum + removal.bytes, 0) + trash.bytes,
+    remainingBytes: candidates
+      .filter((candidate) => !removedPaths.has(candidate.filePath))
+      .reduce((sum, candidate) => sum + candidate.bytes, 0),
+    skipped,
+  };
+  if (!dryRun && (removed.length > 0 || trash.files > 0)) {
+    logInfo(
+      `retention removed ${removed.length} session${removed.length === 1 ? "" : "s"} and ${trash.files} trash file${trash.files === 1 ? "" : "s"}, reclaiming ${formatBytes(report.reclaimedBytes)}`
+    );
+  }
+  return report;
+}
+
+/**
+ * Walk `sessions` newest first and remove every unprotected session past the
+ * count or size cap. Protected sessions take up room but are never removed.
+ */
+function enforceCap(
+  sessions: Candidate[],
+  maxSessions: number | undefined,
+  maxBytes: number | undefined,
+  scope: "project" | "total",
+  remove: (candidate: Candidate, reason: string) => void
+): void {
+  const newestFirst = [...sessions].sort((a, b) => b.modifiedMs - a.modifiedMs);
+  let count = 0;
+  let bytes = 0;
+  for (const candidate of newestFirst) {
+    count += 1;
+    bytes += candidate.bytes;
+    if (candidate.protectedBy) {
+      continue;
+    }
+    if (maxSessions !== undefined && count > maxSessions) {
+      remove(candidate, `more than ${maxSessions} sessions in the project`);
+    } else if (maxBytes !== undefined && bytes > maxBytes) {
+      remove(candidate, `${scope} size over ${formatBytes(maxBytes)}`);
+    } else {
+      continue;
+    }
+    // A removed session frees its room for older ones
+    count -= 1;
+    bytes -= candidate.bytes;
+  }
+}
+
+async function purgeTrash(cutoff: number, dryRun: boolean): Promise<{ files: number; bytes: number }> {
+  let names: string[];
+  try {
+    names = await readdir(TRASH_DIR);
+  } catch {
+    return { files: 0, bytes: 0 };
+  }
+  let files = 0;
+  let bytes = 0;
+  for (const name of names) {
+    const filePath = path.join(TRASH_DIR, name);
+    try {
+      // Moving a file into the trash updates its ctime, not its mtime
+      const info = await stat(filePath);
+      if (!info.isFile() || info.ctimeMs >= cutoff) {
+        continue;
+      }
+      if (!dryRun) {
+        await rm(filePath);
+      }
+      files += 1;
+      bytes += info.size;
+    } catch (error) {
+      logWarn(`removing trash file failed: ${(error as Error).message}`);
+    }
+  }
+  return { files, bytes };
+}
+
+export function formatRetentionReport(report: RetentionReport): string {
+  const verb = report.dryRun ? "Would remove" : "Removed";
+  const lines = [
+    `## Session cleanup${report.dryRun ? " (dry run)" : ""}`,
+    `${verb} ${report.removed.length} session${report.removed.length === 1 ? "" : "s"}` +
+      (report.trashFiles > 0 ? ` and ${report.trashFiles} trash file${report.trashFiles === 1 ? "" : "s"}` : "") +
+      `, ${report.dryRun ? "reclaiming" : "reclaimed"} ${formatBytes(report.reclaimedBytes)}. ` +
+      `${formatBytes(report.remainingBytes)} of sessions remain.`,
+  ];
+  const shown = report.removed.slice(0, 20);
+  if (shown.length > 0) {
+    lines.push("");
+    for (const removal of shown) {
+      const title = removal.title?.trim() || "(no title)";
+      lines.push(`- \`${removal.sessionId.slice(0, 8)}\` ${title} · ${formatBytes(removal.bytes)} · ${removal.reason}`);
+    }
+    if (report.removed.length > shown.length) {
+      lines.push(`- …and ${report.removed.length - shown.length} more`);
+    }
+  }
+  const { live, kept, recent } = report.skipped;
+  if (live + kept + recent > 0) {
+    lines.push("", `Never removed: ${live} live, ${kept} tagged \`#${KEEP_TAG}\`, ${recent} written to in the last hour.`);
+  }
+  return lines.join("\n");
+}
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,348 @@
+import { stat } from "node:fs/promises";
+import { logDebug } from "../../logger";
+import { listSessionFiles } from "./paths";
+import { forEachAppendedLine, forEachLimited } from "./session-index";
+import { extractMessageText, normalizeCwd, normalizeTitle, safeJsonParse } from "./utils";
+
+export type SearchFieldKind = "title" | "user" | "assistant" | "command" | "path";
+
+export type SessionSearchResult = {
+  sessionId: string;
+  cwd: string;
+  title: string | null;
+  filePath: string;
+  updatedAt: string | null;
+  score: number;
+  /** Where the best snippet was found. */
+  matchedIn: SearchFieldKind;
+  snippet: string;
+  /** Slash command that loads the session, e.g. `/load <sessionId>`. */
+  loadCommand: string;
+};
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 50;
+
+/** Long tool-call arguments and replies are indexed only up to this length. */
+const MAX_FIELD_CHARS = 4000;
+const MAX_TOKEN_LENGTH = 40;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 100;
+/** How much a hit counts, by where it was found: what the user typed or ran says most about a session. */
+const FIELD_WEIGHTS: Record<SearchFieldKind, number> = { title: 3, user: 2, command: 1.5, path: 1.5, assistant: 1 };
+/** A term that only matches the start of a word counts this much of an exact match. */
+const PREFIX_WEIGHT = 0.5;
+const PHRASE_BONUS = 1.5;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+type SearchField = { kind: Exclude<SearchFieldKind, "title">; text: string };
+
+type SearchDocument = {
+  sessionId: string;
+  cwd: string;
+  /** From the latest `session_info` entry. */
+  name?: string;
+  firstUserMessage?: string;
+  updatedAt?: string;
+  fields: SearchField[];
+  /** Weighted occurrences of each word across the fields. */
+  terms: Map<string, number>;
+  /** Number of words across the fields. */
+  length: number;
+  parsedBytes: number;
+};
+
+type SearchEntry = { size: number; mtimeMs: number; document: SearchDocument | null };
+
+/**
+ * Full-text search over message text, tool commands and file paths in every
+ * pi session file. The index is kept in memory: built on the first search
+ * and, like the session index, brought up to date on each later one by
+ * reading only what was appended to each file.
+ */
+export class SessionSearchIndex {
+  private entries = new Map<string, SearchEntry>();
+  private refreshing: Promise<void> | null = null;
+
+  async search(query: string, options?: { cwd?: string | null; limit?: number }): Promise<SessionSearchResult[]> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) {
+      throw new Error("Search query must contain at least one word");
+    }
+    const limit = Math.min(Math.max(1, Math.floor(options?.limit ?? DEFAULT_SEARCH_LIMIT)), MAX_SEARCH_LIMIT);
+    const targetCwd = normalizeCwd(options?.cwd ?? null);
+    await this.refresh();
+
+    const candidates: Array<{ filePath: string; modifiedMs: number; document: SearchDocument; hits: number[] }> = [];
+    for (const [filePath, entry] of this.entries) {
+      const document = entry.document;
+      if (!document || (targetCwd && normalizeCwd(document.cwd) !== targetCwd)) {
+        continue;
+      }
+      const hits = terms.map((term) => termHits(document, term));
+      // Every term has to occur somewhere in the session
+      if (hits.every((count) => count > 0)) {
+        candidates.push({ filePath, modifiedMs: entry.mtimeMs, document, hits });
+      }
+    }
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const total = candidates.length;
+    const averageLength = candidates.reduce((sum, candidate) => sum + candidate.document.length, 0) / total || 1;
+    const idf = terms.map((_, index) => {
+      const matching = candidates.filter((candidate) => candidate.hits[index] > 0).length;
+      return Math.log(1 + (total - matching + 0.5) / (matching + 0.5));
+    });
+    const phrase = terms.length > 1 ? normalizeSpaces(query).toLowerCase() : null;
+
+    const scored = candidates.map((candidate) => {
+      const lengthNorm = 1 - B + (B * candidate.document.length) / averageLength;
+      let score = candidate.hits.reduce((sum, tf, index) => sum + (idf[index] * tf * (K1 + 1)) / (tf + K1 * lengthNorm), 0);
+      if (phrase && containsPhrase(candidate.document, phrase)) {
+        score *= PHRASE_BONUS;
+      }
+      return { ...candidate, score };
+    });
+    scored.sort((a, b) => b.score - a.score || b.modifiedMs - a.modifiedMs);
+
+    return scored.slice(0, limit).map(({ filePath, document, score }) => {
+      const { kind, snippet } = buildSnippet(document, terms, phrase);
+      const title = documentTitle(document);
+      return {
+        sessionId: document.sessionId,
+        cwd: document.cwd,
+        title: title ?? null,
+        filePath,
+        updatedAt: document.updatedAt ?? null,
+        score: Math.round(score * 1000) / 1000,
+        matchedIn: kind,
+        snippet,
+        loadCommand: `/load ${document.sessionId}`,
+      };
+    });
+  }
+
+  /** Bring the index up to date with the session files; concurrent callers share one pass. */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async runRefresh(): Promise<void> {
+    const files = await listSessionFiles();
+    const present = new Set(files);
+    for (const filePath of this.entries.keys()) {
+      if (!present.has(filePath)) {
+        this.entries.delete(filePath);
+      }
+    }
+    await forEachLimited(files, (filePath) => this.updateFile(filePath));
+  }
+
+  private async updateFile(filePath: string): Promise<void> {
+    let info: { size: number; mtimeMs: number };
+    try {
+      info = await stat(filePath);
+    } catch {
+      this.entries.delete(filePath);
+      return;
+    }
+    const previous = this.entries.get(filePath);
+    if (previous && previous.size === info.size && previous.mtimeMs === info.mtimeMs) {
+      return;
+    }
+    const appended =
+      previous?.document && info.size > previous.size && info.size >= previous.document.parsedBytes
+        ? previous.document
+        : undefined;
+    let document: SearchDocument | null;
+    try {
+      document = await indexSessionFile(filePath, appended);
+    } catch (error) {
+      logDebug(`session file unreadable for search: ${(error as Error).message}`);
+      document = null;
+    }
+    this.entries.set(filePath, { size: info.size, mtimeMs: info.mtimeMs, document });
+  }
+}
+
+/** The search index shared by `/find` and the search extension request. */
+export const sessionSearch = new SessionSearchIndex();
+
+/** Index a session file, or with `previous` extend it with the lines appended since. */
+async function indexSessionFile(filePath: string, previous?: SearchDocument): Promise<SearchDocument | null> {
+  // Extended in place: the previous entry is replaced by this one
+  let document: SearchDocument | null = previous ?? null;
+  // A new file's first line is its header
+  let expectHeader = !previous;
+  const end = await forEachAppendedLine(filePath, previous?.parsedBytes ?? 0, (line) => {
+    if (expectHeader) {
+      expectHeader = false;
+      document = createDocument(line);
+    } else if (document) {
+      indexEntry(document, line);
+    }
+  });
+  if (!document) {
+    return null;
+  }
+  document.parsedBytes = end;
+  return document;
+}
+
+function createDocument(line: string): SearchDocument | null {
+  const header = safeJsonParse(line) as Record<string, unknown> | null;
+  if (!header || header.type !== "session" || typeof header.id !== "string") {
+    return null;
+  }
+  const rawCwd = typeof header.cwd === "string" ? header.cwd : "";
+  return {
+    sessionId: header.id,
+    cwd: normalizeCwd(rawCwd) ?? rawCwd,
+    updatedAt: typeof header.timestamp === "string" ? header.timestamp : undefined,
+    fields: [],
+    terms: new Map(),
+    length: 0,
+    parsedBytes: 0,
+  };
+}
+
+function indexEntry(document: SearchDocument, line: string): void {
+  const entry = safeJsonParse(line) as Record<string, unknown> | null;
+  if (!entry || typeof entry !== "object") {
+    return;
+  }
+  if (typeof entry.timestamp === "string") {
+    document.updatedAt = entry.timestamp;
+  }
+  if (entry.type === "session_info" && typeof entry.name === "string") {
+    document.name = normalizeTitle(entry.name) ?? document.name;
+  }
+  if (entry.type === "message" && entry.message && typeof entry.message === "object") {
+    indexMessage(document, entry.message as Record<string, unknown>);
+  }
+}
+
+function indexMessage(document: SearchDocument, message: Record<string, unknown>): void {
+  if (message.role === "user") {
+    const text = extractMessageText(message.content);
+    document.firstUserMessage ??= text;
+    addField(document, "user", text);
+  } else if (message.role === "assistant") {
+    addField(document, "assistant", extractMessageText(message.content));
+    for (const block of Array.isArray(message.content) ? message.content : []) {
+      const call = block as { type?: unknown; arguments?: unknown };
+      if (call.type !== "toolCall" || !call.arguments || typeof call.arguments !== "object") {
+        continue;
+      }
+      const args = call.arguments as Record<string, unknown>;
+      addField(document, "command", typeof args.command === "string" ? args.command : undefined);
+      addField(document, "path", typeof args.path === "string" ? args.path : undefined);
+      addField(document, "path", typeof args.file_path === "string" ? args.file_path : undefined);
+    }
+  } else if (message.role === "bashExecution") {
+    // Commands the user ran with `!` or `/bash`
+    addField(document, "command", typeof message.command === "string" ? message.command : undefined);
+  }
+}
+
+function addField(document: SearchDocument, kind: SearchField["kind"], text: string | undefined): void {
+  const trimmed = text?.trim().slice(0, MAX_FIELD_CHARS);
+  if (!trimmed) {
+    return;
+  }
+  document.fields.push({ kind, text: trimmed });
+  for (const token of tokenize(trimmed)) {
+    document.terms.set(token, (document.terms.get(token) ?? 0) + FIELD_WEIGHTS[kind]);
+    document.length += 1;
+  }
+}
+
+/** Weighted occurrences of `term` as a word or the start of one, in the fields and the title. */
+function termHits(document: SearchDocument, term: string): number {
+  let hits = 0;
+  for (const [token, weight] of document.terms) {
+    if (token === term) {
+      hits += weight;
+    } else if (token.startsWith(term)) {
+      hits += weight * PREFIX_WEIGHT;
+    }
+  }
+  for (const token of tokenize(documentTitle(document) ?? "")) {
+    if (token.startsWith(term)) {
+      hits += FIELD_WEIGHTS.title * (token === term ? 1 : PREFIX_WEIGHT);
+    }
+  }
+  return hits;
+}
+
+function containsPhrase(document: SearchDocument, phrase: string): boolean {
+  const texts = [documentTitle(document) ?? "", ...document.fields.map((field) => field.text)];
+  return texts.some((text) => normalizeSpaces(text).toLowerCase().includes(phrase));
+}
+
+/** Cut the snippet from the field that contains the most query terms, preferring the exact phrase. */
+function buildSnippet(
+  document: SearchDocument,
+  terms: string[],
+  phrase: string | null
+): { kind: SearchFieldKind; snippet: string } {
+  const title = documentTitle(document);
+  const candidates: Array<{ kind: SearchFieldKind; text: string }> = [
+    ...(title ? [{ kind: "title" as const, text: title }] : []),
+    ...document.fields,
+  ];
+  let best: { kind: SearchFieldKind; text: string; at: number; rank: number } | null = null;
+  for (const candidate of candidates) {
+    const text = normalizeSpaces(candidate.text);
+    const lower = text.toLowerCase();
+    const phraseAt = phrase ? lower.indexOf(phrase) : -1;
+    const positions = terms.map((term) => findWord(lower, term)).filter((at) => at >= 0);
+    if (positions.length === 0) {
+      continue;
+    }
+    const rank = (phraseAt >= 0 ? terms.length + 1 : positions.length) * 10 + FIELD_WEIGHTS[candidate.kind];
+    if (!best || rank > best.rank) {
+      best = { kind: candidate.kind, text, at: phraseAt >= 0 ? phraseAt : Math.min(...positions), rank };
+    }
+  }
+  if (!best) {
+    return { kind: "title", snippet: title ?? "" };
+  }
+  const start = Math.max(0, best.at - SNIPPET_BEFORE);
+  const end = Math.min(best.text.length, best.at + SNIPPET_AFTER);
+  const snippet = `${start > 0 ? "…" : ""}${best.text.slice(start, end).trim()}${end < best.text.length ? "…" : ""}`;
+  return { kind: best.kind, snippet };
+}
+
+/** Index of the first word in `lower` starting with `term`, or -1. */
+function findWord(lower: string, term: string): number {
+  let at = lower.indexOf(term);
+  while (at >= 0) {
+    if (at === 0 || !/[\p{L}\p{N}_]/u.test(lower[at - 1])) {
+      return at;
+    }
+    at = lower.indexOf(term, at + 1);
+  }
+  return -1;
+}
+
+function documentTitle(document: SearchDocument): string | undefined {
+  return document.name ?? normalizeTitle(document.firstUserMessage);
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []).filter((token) => token.length <= MAX_TOKEN_LENGTH);
+}
+
+function normalizeSpaces(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,397 @@
+import { randomUUID } from "node:crypto";
+import { watch, type FSWatcher } from "node:fs";
+import { mkdir, open, readFile, rename, rm, stat } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { logDebug, logWarn } from "../../logger";
+import type { SessionFileInfo } from "./metadata";
+import { getSessionsDir, listSessionFiles } from "./paths";
+import { extractMessageText, normalizeCwd, normalizeTitle, safeJsonParse } from "./utils";
+
+/** Bump when the parse state changes shape so old caches are rebuilt. */
+const INDEX_VERSION = 1;
+const WATCH_DEBOUNCE_MS = 200;
+/** Session files read at once during a scan; each is streamed, but some are hundreds of MB. */
+const MAX_PARALLEL_READS = 4;
+
+/**
+ * What a session file has told us so far. Session files are append-only, so
+ * when one grows only the bytes after `parsedBytes` need to be read.
+ */
+type SessionParseState = {
+  sessionId: string;
+  cwd: string;
+  title?: string;
+  firstUserMessage?: string;
+  updatedAt?: string;
+  messageCount: number;
+  /** Offset just past the last complete line that was parsed. */
+  parsedBytes: number;
+};
+
+type IndexEntry = {
+  size: number;
+  mtimeMs: number;
+  /** null for files that are not pi sessions, so they are not re-read until they change. */
+  state: SessionParseState | null;
+};
+
+type IndexFile = { version: number; entries: Record<string, IndexEntry> };
+
+/**
+ * Cache of session file summaries keyed by path, checked against each file's
+ * size and mtime. It is persisted between runs, and while `watch()` is active
+ * a refresh only looks at the files the watcher saw change.
+ */
+export class SessionIndex {
+  private readonly cachePath: string;
+  private entries = new Map<string, IndexEntry>();
+  private loading: Promise<void> | null = null;
+  private changed = false;
+  private refreshing: Promise<void> | null = null;
+  private watching = false;
+  private watcher: FSWatcher | null = null;
+  /** Files touched since the last refresh; only trusted while the watcher runs. */
+  private dirty = new Set<string>();
+  private needsFullScan = true;
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(cachePath: string) {
+    this.cachePath = cachePath;
+  }
+
+  async list(): Promise<SessionFileInfo[]> {
+    await this.refresh();
+    const sessions: SessionFileInfo[] = [];
+    for (const [filePath, entry] of this.entries) {
+      if (entry.state) {
+        sessions.push(toSessionFileInfo(filePath, entry, entry.state));
+      }
+    }
+    return sessions;
+  }
+
+  /** Summary of one session file, re-reading only what changed since it was last indexed. */
+  async read(filePath: string): Promise<SessionFileInfo | null> {
+    await this.load();
+    await this.updateFile(filePath);
+    const entry = this.entries.get(filePath);
+    return entry?.state ? toSessionFileInfo(filePath, entry, entry.state) : null;
+  }
+
+  /** Bring the index up to date with the sessions directory and save it if anything changed. */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Watch the sessions directory so lookups skip the full directory scan and
+   * the index is refreshed in the background as pi writes. The watcher starts
+   * with the first listing, so processes that never list sessions don't hold
+   * one. Until it can start (no sessions directory yet, or no recursive watch
+   * support) every lookup scans the directory as before.
+   */
+  watch(): void {
+    this.watching = true;
+  }
+
+  unwatch(): void {
+    this.watching = false;
+    this.stopWatcher();
+  }
+
+  private startWatcher(): void {
+    if (this.watcher) {
+      return;
+    }
+    const sessionsDir = getSessionsDir();
+    try {
+      this.watcher = watch(sessionsDir, { recursive: true, persistent: false }, (_event, filename) => {
+        if (filename && filename.endsWith(".jsonl")) {
+          this.dirty.add(path.join(sessionsDir, filename));
+        } else {
+          this.needsFullScan = true;
+        }
+        this.scheduleRefresh();
+      });
+    } catch (error) {
+      logDebug(`session index watcher unavailable: ${(error as Error).message}`);
+      return;
+    }
+    this.watcher.on("error", (error) => {
+      logWarn(`session index watcher failed: ${error.message}`);
+      this.stopWatcher();
+    });
+    this.needsFullScan = true;
+  }
+
+  private stopWatcher(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.needsFullScan = true;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      return;
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh().catch((error: Error) => logWarn(`session index refresh failed: ${error.message}`));
+    }, WATCH_DEBOUNCE_MS);
+    this.refreshTimer.unref();
+  }
+
+  private async runRefresh(): Promise<void> {
+    await this.load();
+    if (this.watcher && !this.needsFullScan) {
+      const dirty = [...this.dirty];
+      this.dirty.clear();
+      await forEachLimited(dirty, (filePath) => this.updateFile(filePath));
+    } else {
+      if (this.watching) {
+        this.startWatcher();
+      }
+      // Cleared first: events that arrive during the scan schedule another pass
+      this.needsFullScan = false;
+      this.dirty.clear();
+      const files = await listSessionFiles();
+      const present = new Set(files);
+      for (const filePath of this.entries.keys()) {
+        if (!present.has(filePath)) {
+          this.entries.delete(filePath);
+          this.changed = true;
+        }
+      }
+      await forEachLimited(files, (filePath) => this.updateFile(filePath));
+    }
+    if (this.changed) {
+      this.changed = false;
+      await this.save();
+    }
+  }
+
+  private async updateFile(filePath: string): Promise<void> {
+    let info: { size: number; mtimeMs: number };
+    try {
+      info = await stat(filePath);
+    } catch {
+      if (this.entries.delete(filePath)) {
+        this.changed = true;
+      }
+      return;
+    }
+    const previous = this.entries.get(filePath);
+    if (previous && previous.size === info.size && previous.mtimeMs === info.mtimeMs) {
+      return;
+    }
+    const appended =
+      previous?.state && info.size > previous.size && info.size >= previous.state.parsedBytes ? previous.state : undefined;
+    let state: SessionParseState | null;
+    try {
+      state = await parseSessionFile(filePath, appended);
+    } catch (error) {
+      logDebug(`session file unreadable: ${(error as Error).message}`);
+      state = null;
+    }
+    this.entries.set(filePath, { size: info.size, mtimeMs: info.mtimeMs, state });
+    this.changed = true;
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.readCache();
+    return this.loading;
+  }
+
+  private async readCache(): Promise<void> {
+    try {
+      const data = JSON.parse(await readFile(this.cachePath, "utf8")) as Partial<IndexFile>;
+      if (data.version === INDEX_VERSION && data.entries && typeof data.entries === "object") {
+        this.entries = new Map(Object.entries(data.entries));
+      }
+    } catch {
+      // No cache yet, or an unreadable one: rebuild from the session files
+    }
+  }
+
+  /** Write to a temp file and rename it over the cache so readers never see a partial file. */
+  private async save(): Promise<void> {
+    const data: IndexFile = { version: INDEX_VERSION, entries: Object.fromEntries(this.entries) };
+    const tempPath = `${this.cachePath}.${randomUUID()}.tmp`;
+    try {
+      await mkdir(path.dirname(this.cachePath), { recursive: true });
+      const handle = await open(tempPath, "w", 0o600);
+      try {
+        await handle.writeFile(JSON.stringify(data));
+      } finally {
+        await handle.close();
+      }
+      await rename(tempPath, this.cachePath);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      logWarn(`session index save failed: ${(error as Error).message}`);
+    }
+  }
+}
+
+/** The index shared by listings, `/sessions`, `/load` and session id lookups. */
+export const sessionIndex = new SessionIndex(path.join(os.homedir(), ".pi", "pi-acp", "session-index.json"));
+
+/**
+ * Call `onLine` with each non-empty line of a session file from byte `start`,
+ * reading it as a stream so a large file is never held whole. Returns the
+ * offset to resume from. A trailing line without a newline is left for the
+ * next read unless it is already valid JSON.
+ */
+export async function forEachAppendedLine(
+  filePath: string,
+  start: number,
+  onLine: (line: string) => void
+): Promise<number> {
+  const handle = await open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    if (size <= start) {
+      return start;
+    }
+    let end = start;
+    let offset = start;
+    // Pieces of the line being read, which can span chunks
+    let pending: Buffer[] = [];
+    const emit = (piece: Buffer) => {
+      pending.push(piece);
+      const line = Buffer.concat(pending).toString("utf8");
+      pending = [];
+      if (line.trim()) {
+        onLine(line);
+      }
+    };
+    // Up to the size seen above, like the entry recorded for this read
+    const stream = handle.createReadStream({ start, end: size - 1, autoClose: false });
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      let from = 0;
+      for (let newline = chunk.indexOf(0x0a); newline !== -1; newline = chunk.indexOf(0x0a, from)) {
+        emit(chunk.subarray(from, newline));
+        from = newline + 1;
+        end = offset + from;
+      }
+      if (from < chunk.length) {
+        pending.push(chunk.subarray(from));
+      }
+      offset += chunk.length;
+    }
+    const tail = Buffer.concat(pending).toString("utf8");
+    if (tail.trim() && safeJsonParse(tail) !== null) {
+      onLine(tail);
+      end = offset;
+    }
+    return end;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Run `task` for every item with at most {@link MAX_PARALLEL_READS} running at
+ * once, so a full scan reads a few session files at a time rather than all.
+ */
+export async function forEachLimited<T>(items: readonly T[], task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL_READS, items.length) }, worker));
+}
+
+/** Parse a session file, or with `previous` just the lines appended since it was taken. */
+async function parseSessionFile(filePath: string, previous?: SessionParseState): Promise<SessionParseState | null> {
+  let state: SessionParseState | null = previous ? { ...previous } : null;
+  // A new file's first line is its header
+  let expectHeader = !previous;
+  const end = await forEachAppendedLine(filePath, previous?.parsedBytes ?? 0, (line) => {
+    if (expectHeader) {
+      expectHeader = false;
+      state = parseHeader(line);
+    } else if (state) {
+      applyEntry(state, line);
+    }
+  });
+  if (!state) {
+    return null;
+  }
+  state.parsedBytes = end;
+  return state;
+}
+
+function parseHeader(line: string): SessionParseState | null {
+  const header = safeJsonParse(line);
+  if (!header || typeof header !== "object") {
+    return null;
+  }
+  const headerObj = header as Record<string, unknown>;
+  if (headerObj.type !== "session" || typeof headerObj.id !== "string") {
+    return null;
+  }
+  const rawCwd = typeof headerObj.cwd === "string" ? headerObj.cwd : "";
+  return {
+    sessionId: headerObj.id,
+    cwd: normalizeCwd(rawCwd) ?? rawCwd,
+    updatedAt: typeof headerObj.timestamp === "string" ? headerObj.timestamp : undefined,
+    messageCount: 0,
+    parsedBytes: 0,
+  };
+}
+
+function applyEntry(state: SessionParseState, line: string): void {
+  const entry = safeJsonParse(line);
+  if (!entry || typeof entry !== "object") {
+    return;
+  }
+
+  const entryObj = entry as Record<string, unknown>;
+  if (typeof entryObj.timestamp === "string") {
+    state.updatedAt = entryObj.timestamp;
+  }
+
+  if (entryObj.type === "session_info" && typeof entryObj.name === "string") {
+    const name = normalizeTitle(entryObj.name);
+    if (name) {
+      state.title = name;
+    }
+  }
+
+  if (entryObj.type !== "message" || !entryObj.message) {
+    return;
+  }
+
+  state.messageCount++;
+
+  const messageObj = entryObj.message as Record<string, unknown>;
+  if (messageObj.role === "user" && !state.firstUserMessage) {
+    state.firstUserMessage = extractMessageText(messageObj.content);
+  }
+}
+
+function toSessionFileInfo(filePath: string, entry: IndexEntry, state: SessionParseState): SessionFileInfo {
+  return {
+    sessionId: state.sessionId,
+    cwd: state.cwd,
+    title: state.title ?? normalizeTitle(state.firstUserMessage),
+    named: state.title !== undefined,
+    updatedAt: state.updatedAt ?? new Date(entry.mtimeMs).toISOString(),
+    filePath,
+    messageCount: state.messageCount,
+    modifiedMs: entry.mtimeMs,
+  };
+}
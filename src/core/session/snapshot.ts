@@ -0,0 +1,53 @@
+import type { SessionMetrics, SessionState } from "./types";
+
+export type SessionSnapshot = {
+  sessionId: string;
+  cwd: string;
+  title: string | null;
+  /** `prompting` while a turn runs, `idle` with a live pi process, `stopped` without one. */
+  state: "prompting" | "idle" | "stopped";
+  pid: number | null;
+  attached: boolean;
+  observers: number;
+  queuedPrompts: number;
+  /** How long the running prompt has taken so far. */
+  promptRunningMs: number | null;
+  pendingRequests: Array<{ command: string; ageMs: number }>;
+  prompts: number;
+  lastPromptMs: number | null;
+  totalPromptMs: number;
+  toolCalls: number;
+  toolErrors: number;
+  tokens: SessionMetrics["tokens"];
+  cost: number;
+};
+
+export type AdapterSnapshot = {
+  pid: number;
+  uptimeMs: number;
+  connections: number;
+  sessions: SessionSnapshot[];
+};
+
+export function snapshotSession(session: SessionState, attached: boolean, now = Date.now()): SessionSnapshot {
+  const { metrics } = session;
+  return {
+    sessionId: session.id,
+    cwd: session.cwd,
+    title: session.title ?? null,
+    state: session.pendingPrompt ? "prompting" : session.pi.running ? "idle" : "stopped",
+    pid: session.pi.pid ?? null,
+    attached,
+    observers: session.observerIds.size,
+    queuedPrompts: session.queuedPrompts.length,
+    promptRunningMs: metrics.promptStartedAt === undefined ? null : now - metrics.promptStartedAt,
+    pendingRequests: session.pi.pendingRequestInfo,
+    prompts: metrics.prompts,
+    lastPromptMs: metrics.lastPromptMs ?? null,
+    totalPromptMs: metrics.totalPromptMs,
+    toolCalls: metrics.toolCalls,
+    toolErrors: metrics.toolErrors,
+    tokens: { ...metrics.tokens },
+    cost: metrics.cost,
+  };
+}
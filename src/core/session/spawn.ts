@@ -1,27 +1,209 @@
-import { logError } from "../../logger";
+import { existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { logError, logWarn } from "../../logger";
+import { formatTitleCommand } from "../../pi/extensions/session-title";
 import { PiProcess } from "../../pi/process";
-import type { PiLine } from "../../pi/types";
+import type { PiCommand, PiExitInfo, PiLine, PiResponse } from "../../pi/types";
 import { createSessionState } from "../config/config";
+import { DEFAULT_SESSION_MODE } from "../config/consts";
+import type { ResolvedProfile } from "../config/profiles";
+import { sessionMapStore } from "./map";
+import { modeCommand } from "./modes";
 import type { SessionState } from "./types";
 
+const PERMISSION_GATE_PATH = fileURLToPath(new URL("../../pi/extensions/permission-gate.ts", import.meta.url));
+const SESSION_MODE_PATH = fileURLToPath(new URL("../../pi/extensions/session-mode.ts", import.meta.url));
+const SESSION_TITLE_PATH = fileURLToPath(new URL("../../pi/extensions/session-title.ts", import.meta.url));
+const CLIENT_TERMINAL_PATH = fileURLToPath(new URL("../../pi/extensions/client-terminal.ts", import.meta.url));
+const DEFAULT_SWITCH_SESSION_TIMEOUT_MS = 30000;
+
 export type SessionSpawnOptions = {
   sessionId: string;
   cwd: string;
   env?: NodeJS.ProcessEnv;
+  profile: ResolvedProfile;
   onLine: (state: SessionState, line: PiLine) => void;
   onError: (state: SessionState, error: Error) => void;
+  onExit: (state: SessionState, info: PiExitInfo) => void;
   mcpServers?: unknown[];
+  /** The client runs terminals, so pi's bash tool and `/bash` are routed to it. */
+  clientTerminal?: boolean;
 };
 
 export function spawnSessionState(options: SessionSpawnOptions): SessionState {
-  const pi = new PiProcess({ cwd: options.cwd, env: options.env });
+  const { profile } = options;
+  const pi = new PiProcess({
+    cwd: options.cwd,
+    piExecutable: profile.executable,
+    env: { ...profile.env, ...options.env },
+    args: [
+      "--mode",
+      "rpc",
+      "--extension",
+      PERMISSION_GATE_PATH,
+      "--extension",
+      SESSION_MODE_PATH,
+      "--extension",
+      SESSION_TITLE_PATH,
+      ...(options.clientTerminal ? ["--extension", CLIENT_TERMINAL_PATH] : []),
+      ...(profile.args ?? []),
+    ],
+    requestTimeoutMs: profile.timeouts?.requestMs,
+    logContext: { sessionId: options.sessionId },
+  });
   const state = createSessionState(options.sessionId, options.cwd, pi, options.mcpServers);
+  state.profile = profile;
 
+  const switchTimeoutMs = profile.timeouts?.switchSessionMs ?? DEFAULT_SWITCH_SESSION_TIMEOUT_MS;
+  pi.setBootstrap((request) => restoreSession(state, request, switchTimeoutMs));
   pi.onLine((line) => options.onLine(state, line));
   pi.onError((error) => {
-    logError(`pi process error for session ${options.sessionId}: ${error.message}`);
+    logError(`pi process error: ${error.message}`, { sessionId: options.sessionId });
     options.onError(state, error);
   });
+  pi.onExit((info) => options.onExit(state, info));
 
   return state;
 }
+
+/**
+ * Spawn a pi that writes no session file, for side requests that must not
+ * show up in any conversation. The permission gate is loaded as for session
+ * processes so the caller decides whether tools may run.
+ */
+export function spawnEphemeralPi(cwd: string, profile: ResolvedProfile, logContext: Record<string, unknown>): PiProcess {
+  return new PiProcess({
+    cwd,
+    piExecutable: profile.executable,
+    env: profile.env,
+    args: ["--mode", "rpc", "--no-session", "--extension", PERMISSION_GATE_PATH, ...(profile.args ?? [])],
+    requestTimeoutMs: profile.timeouts?.requestMs,
+    logContext,
+  });
+}
+
+/**
+ * Point a freshly spawned pi at the session file and re-apply the settings
+ * known from `SessionState`, so a respawned process picks up where the old one
+ * stopped. Only the switch is fatal; a setting pi rejects is logged and skipped.
+ * A session whose file pi never wrote starts over in the new pi's session, and
+ * a title set while no pi ran is applied.
+ */
+async function restoreSession(
+  state: SessionState,
+  request: (command: PiCommand, timeoutMs?: number) => Promise<PiResponse>,
+  switchTimeoutMs: number
+): Promise<void> {
+  // A fresh pi has every tool active, which is what the default mode wants
+  const extensionCommands: PiCommand[] =
+    state.modeId === DEFAULT_SESSION_MODE ? [] : [{ type: "prompt", message: modeCommand(state.modeId) }];
+  if (state.unsavedTitle) {
+    extensionCommands.push({ type: "prompt", message: formatTitleCommand(state.unsavedTitle) });
+    state.unsavedTitle = undefined;
+  }
+  if (!state.sessionFile) {
+    await runSettingCommands(state, extensionCommands, request, "restore");
+    return;
+  }
+  // pi writes its session file with the first message, so a process stopped
+  // before then left nothing to switch to; the new pi's own session replaces it
+  const resumable = existsSync(state.sessionFile);
+  if (resumable) {
+    const response = await request({ type: "switch_session", sessionPath: state.sessionFile }, switchTimeoutMs);
+    if (!response.success) {
+      throw new Error(response.error ?? "Failed to switch session");
+    }
+  }
+
+  const commands: PiCommand[] = [...extensionCommands];
+  const model = state.currentModelId ? state.modelMap.get(state.currentModelId) : undefined;
+  if (model) {
+    commands.push({ type: "set_model", provider: model.provider, modelId: model.id });
+  }
+  if (state.thinkingLevel) {
+    commands.push({
+      type: "set_thinking_level",
+      level: state.thinkingLevel as "off" | "minimal" | "low" | "medium" | "high" | "xhigh",
+    });
+  }
+  if (state.steeringMode) {
+    commands.push({ type: "set_steering_mode", mode: state.steeringMode });
+  }
+  if (state.followUpMode) {
+    commands.push({ type: "set_follow_up_mode", mode: state.followUpMode });
+  }
+  if (state.autoCompactionEnabled !== undefined) {
+    commands.push({ type: "set_auto_compaction", enabled: state.autoCompactionEnabled });
+  }
+  if (state.autoRetryEnabled !== undefined) {
+    commands.push({ type: "set_auto_retry", enabled: state.autoRetryEnabled });
+  }
+
+  await runSettingCommands(state, commands, request, "restore");
+  if (!resumable) {
+    await recaptureSessionFile(state, request);
+  }
+}
+
+async function recaptureSessionFile(
+  state: SessionState,
+  request: (command: PiCommand) => Promise<PiResponse>
+): Promise<void> {
+  try {
+    const response = await request({ type: "get_state" });
+    const sessionFile = response.success ? (response.data as { sessionFile?: unknown } | undefined)?.sessionFile : undefined;
+    if (typeof sessionFile === "string") {
+      state.sessionFile = sessionFile;
+      await sessionMapStore.set(state.id, sessionFile);
+    }
+  } catch (error) {
+    logWarn(`session map update failed: ${(error as Error).message}`, { sessionId: state.id });
+  }
+}
+
+async function runSettingCommands(
+  state: SessionState,
+  commands: PiCommand[],
+  request: (command: PiCommand) => Promise<PiResponse>,
+  label: string
+): Promise<void> {
+  for (const command of commands) {
+    try {
+      const result = await request(command);
+      if (!result.success) {
+        logWarn(`${label} ${command.type} failed: ${result.error ?? "unknown"}`, { sessionId: state.id });
+      }
+    } catch (error) {
+      logWarn(`${label} ${command.type} failed: ${(error as Error).message}`, { sessionId: state.id });
+    }
+  }
+}
+
+/**
+ * Apply a profile's model, thinking level and toggles to a new session.
+ * Failures are logged rather than thrown so a stale profile can't block
+ * session creation.
+ */
+export async function applyProfileDefaults(state: SessionState, profile: ResolvedProfile): Promise<void> {
+  const commands: PiCommand[] = [];
+  if (profile.model) {
+    const [provider, ...rest] = profile.model.split(":");
+    commands.push({ type: "set_model", provider, modelId: rest.join(":") });
+  }
+  if (profile.thinkingLevel) {
+    commands.push({ type: "set_thinking_level", level: profile.thinkingLevel });
+  }
+  if (profile.steeringMode) {
+    commands.push({ type: "set_steering_mode", mode: profile.steeringMode });
+  }
+  if (profile.followUpMode) {
+    commands.push({ type: "set_follow_up_mode", mode: profile.followUpMode });
+  }
+  if (profile.autoCompaction !== undefined) {
+    commands.push({ type: "set_auto_compaction", enabled: profile.autoCompaction });
+  }
+  if (profile.autoRetry !== undefined) {
+    commands.push({ type: "set_auto_retry", enabled: profile.autoRetry });
+  }
+  await runSettingCommands(state, commands, (command) => state.pi.request(command), "profile");
+}
@@ -0,0 +1,81 @@
+import type { SessionUpdate } from "@agentclientprotocol/sdk";
+import { logInfo, logWarn } from "../../logger";
+import type { PiExitInfo } from "../../pi/types";
+import { failPrompts } from "./prompts";
+import type { SessionState } from "./types";
+
+type EmitUpdate = (params: { sessionId: string; update: SessionUpdate }) => void;
+
+const RESTART_DELAYS_MS = [500, 2000, 5000, 15000];
+const STABLE_AFTER_MS = 60000;
+
+type RestartState = {
+  attempts: number;
+  lastRestartAt: number;
+  timer?: NodeJS.Timeout;
+};
+
+/**
+ * Restarts pi processes that exit on their own. The user sees a notice, the
+ * in-flight prompt fails with an error instead of hanging, and the
+ * respawned process is re-attached to the session file by the spawn bootstrap.
+ */
+export class SessionSupervisor {
+  private readonly getEmitter: () => EmitUpdate;
+  private readonly isLive: (session: SessionState) => boolean;
+  private readonly restarts = new Map<string, RestartState>();
+
+  constructor(getEmitter: () => EmitUpdate, isLive: (session: SessionState) => boolean) {
+    this.getEmitter = getEmitter;
+    this.isLive = isLive;
+  }
+
+  handleExit(session: SessionState, info: PiExitInfo): void {
+    if (info.expected || !this.isLive(session)) {
+      return;
+    }
+    const reason = info.signal ? `signal ${info.signal}` : `code ${info.code ?? "unknown"}`;
+    logWarn(`pi exited unexpectedly (${reason})`, { sessionId: session.id });
+
+    const state = this.restarts.get(session.id) ?? { attempts: 0, lastRestartAt: 0 };
+    if (Date.now() - state.lastRestartAt > STABLE_AFTER_MS) {
+      state.attempts = 0;
+    }
+    this.restarts.set(session.id, state);
+
+    if (state.attempts >= RESTART_DELAYS_MS.length) {
+      this.notify(session, `pi exited unexpectedly (${reason}) and could not be restarted. It will be started again on the next prompt.`);
+      failPrompts(session, new Error(`pi exited unexpectedly (${reason})`));
+      return;
+    }
+    const delay = RESTART_DELAYS_MS[state.attempts];
+    state.attempts++;
+    this.notify(session, `pi exited unexpectedly (${reason}). Restarting in ${(delay / 1000).toFixed(1)}s…`);
+    failPrompts(session, new Error(`pi exited unexpectedly (${reason})`));
+    clearTimeout(state.timer);
+    state.timer = setTimeout(() => void this.restart(session, state), delay);
+  }
+
+  private async restart(session: SessionState, state: RestartState): Promise<void> {
+    state.timer = undefined;
+    if (!this.isLive(session) || session.pi.running) {
+      return;
+    }
+    state.lastRestartAt = Date.now();
+    try {
+      await session.pi.start();
+      logInfo("pi restarted", { sessionId: session.id });
+      this.notify(session, "pi restarted and the session was restored.");
+    } catch (error) {
+      logWarn(`pi restart failed: ${(error as Error).message}`, { sessionId: session.id });
+      this.handleExit(session, { code: null, signal: null, expected: false });
+    }
+  }
+
+  private notify(session: SessionState, text: string): void {
+    this.getEmitter()({
+      sessionId: session.id,
+      update: { sessionUpdate: "agent_message_chunk", content: { type: "text", text: `\n\n⚠️ ${text}\n` } },
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, open } from "node:fs/promises";
+import type { SessionUpdate } from "@agentclientprotocol/sdk";
+import { formatTitleCommand } from "../../pi/extensions/session-title";
+import type { SessionState } from "./types";
+import { normalizeTitle, safeJsonParse } from "./utils";
+
+type EmitUpdate = (sessionId: string, update: SessionUpdate) => void;
+
+/** Enough of the file's end to hold its last entry in all but pathological cases. */
+const TAIL_BYTES = 64 * 1024;
+
+/**
+ * Rename a session the adapter holds and send every client the new title.
+ * While its pi runs, pi writes the title entry, since it is appending to the
+ * same file; otherwise the entry is appended here, or the title is kept for
+ * the next pi to apply when there is no file yet.
+ */
+export async function setSessionTitle(session: SessionState, title: string, emitUpdate: EmitUpdate): Promise<string> {
+  const normalized = normalizeTitle(title);
+  if (!normalized) {
+    throw new Error("Title must not be empty");
+  }
+  session.title = normalized;
+  if (session.pi.running) {
+    const response = await session.pi.request({ type: "prompt", message: formatTitleCommand(normalized) });
+    if (!response.success) {
+      throw new Error(response.error ?? "Failed to set the session title");
+    }
+    session.unsavedTitle = undefined;
+  } else if (session.sessionFile && (await appendTitleEntry(session.sessionFile, normalized))) {
+    session.unsavedTitle = undefined;
+  } else {
+    session.unsavedTitle = normalized;
+  }
+  emitUpdate(session.id, {
+    sessionUpdate: "session_info_update",
+    title: normalized,
+    updatedAt: new Date().toISOString(),
+  });
+  return normalized;
+}
+
+/**
+ * Append a `session_info` entry, the same entry pi writes when a session is
+ * named, parented to the file's last entry so the active branch is unchanged.
+ * Only for files no pi process is writing to. Returns false if the file has
+ * no header yet.
+ */
+export async function appendTitleEntry(filePath: string, title: string): Promise<boolean> {
+  let tail: { empty: boolean; lastId: string | null };
+  try {
+    tail = await readTail(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return false;
+    }
+    throw error;
+  }
+  if (tail.empty) {
+    return false;
+  }
+  const entry = {
+    type: "session_info",
+    id: randomUUID().slice(0, 8),
+    parentId: tail.lastId,
+    timestamp: new Date().toISOString(),
+    name: title,
+  };
+  await appendFile(filePath, `${JSON.stringify(entry)}\n`, "utf8");
+  return true;
+}
+
+async function readTail(filePath: string): Promise<{ empty: boolean; lastId: string | null }> {
+  const handle = await open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    if (size === 0) {
+      return { empty: true, lastId: null };
+    }
+    const length = Math.min(size, TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+    const lines = buffer.toString("utf8").split("\n").reverse();
+    for (const line of lines) {
+      const entry = safeJsonParse(line) as { type?: unknown; id?: unknown } | null;
+      if (entry && entry.type !== "session" && typeof entry.id === "string") {
+        return { empty: false, lastId: entry.id };
+      }
+    }
+    return { empty: false, lastId: null };
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,89 @@
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import { safeJsonParse } from "./utils";
+
+export type SessionTranscript = {
+  messages: unknown[];
+  model?: { provider: string; modelId: string };
+  thinkingLevel?: string;
+};
+
+type TranscriptEntry = {
+  type?: unknown;
+  id?: unknown;
+  parentId?: unknown;
+  message?: unknown;
+  provider?: unknown;
+  modelId?: unknown;
+  thinkingLevel?: unknown;
+};
+
+/**
+ * Read the active branch of a pi session file without asking pi for it.
+ *
+ * Entries form a tree through `parentId`; the last entry in the file is the
+ * current leaf, so walking parents from it yields what `get_messages` would
+ * return. Files written before entries had ids are read linearly.
+ */
+export async function readSessionTranscript(filePath: string): Promise<SessionTranscript> {
+  const entries: TranscriptEntry[] = [];
+  const rl = createInterface({ input: createReadStream(filePath, { encoding: "utf8" }), crlfDelay: Infinity });
+  let isHeader = true;
+  for await (const line of rl) {
+    if (!line.trim()) {
+      continue;
+    }
+    const parsed = safeJsonParse(line);
+    if (isHeader) {
+      isHeader = false;
+      const header = parsed as { type?: unknown } | null;
+      if (!header || header.type !== "session") {
+        throw new Error(`Invalid session header: ${filePath}`);
+      }
+      continue;
+    }
+    if (parsed && typeof parsed === "object") {
+      entries.push(parsed as TranscriptEntry);
+    }
+  }
+
+  const branch = resolveActiveBranch(entries);
+  const transcript: SessionTranscript = { messages: [] };
+  for (const entry of branch) {
+    if (entry.type === "message" && entry.message) {
+      transcript.messages.push(entry.message);
+    } else if (
+      entry.type === "model_change" &&
+      typeof entry.provider === "string" &&
+      typeof entry.modelId === "string"
+    ) {
+      transcript.model = { provider: entry.provider, modelId: entry.modelId };
+    } else if (entry.type === "thinking_level_change" && typeof entry.thinkingLevel === "string") {
+      transcript.thinkingLevel = entry.thinkingLevel;
+    }
+  }
+  return transcript;
+}
+
+function resolveActiveBranch(entries: TranscriptEntry[]): TranscriptEntry[] {
+  const byId = new Map<string, TranscriptEntry>();
+  for (const entry of entries) {
+    if (typeof entry.id === "string") {
+      byId.set(entry.id, entry);
+    }
+  }
+  if (byId.size === 0) {
+    return entries;
+  }
+
+  const leaf = [...entries].reverse().find((entry) => typeof entry.id === "string");
+  const branch: TranscriptEntry[] = [];
+  const visited = new Set<string>();
+  let current = leaf;
+  while (current && typeof current.id === "string" && !visited.has(current.id)) {
+    visited.add(current.id);
+    branch.push(current);
+    current = typeof current.parentId === "string" ? byId.get(current.parentId) : undefined;
+  }
+  return branch.reverse();
+}
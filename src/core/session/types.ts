@@ -1,11 +1,39 @@
-import type { SessionConfigOption, SessionModelState, StopReason } from "@agentclientprotocol/sdk";
+import type {
+  AgentSideConnection,
+  ClientCapabilities,
+  PlanEntry,
+  SessionConfigOption,
+  SessionModelState,
+  SessionUpdate,
+  StopReason,
+  TerminalHandle,
+  ToolCallContent,
+} from "@agentclientprotocol/sdk";
 import type { PiProcess } from "../../pi/process";
+import type { SessionModeId } from "../config/consts";
+import type { ResolvedProfile } from "../config/profiles";
 
 export interface PendingPrompt {
   resolve: (reason: StopReason) => void;
   reject: (error: Error) => void;
+  /** Set once pi has started the user message for this prompt. */
+  started?: boolean;
+  /** How a prompt queued during a turn was handed to pi. */
+  behavior?: "steer" | "followUp";
 }
 
+export type AcpClient = Pick<AgentSideConnection, "requestPermission" | "readTextFile" | "createTerminal">;
+
+/** One ACP client connected to the adapter (stdio, or one of many under `serve`). */
+export interface ClientConnection {
+  id: string;
+  emitUpdate: (params: { sessionId: string; update: SessionUpdate }) => void;
+  client: AcpClient | null;
+  capabilities: ClientCapabilities;
+}
+
+export type PermissionPolicy = "allow" | "reject";
+
 export interface PiModel {
   id: string;
   name: string;
@@ -16,15 +44,56 @@ export interface PiModel {
   maxTokens?: number;
 }
 
+/** Running totals for a session, reported by the status endpoint. */
+export interface SessionMetrics {
+  createdAt: number;
+  prompts: number;
+  /** Start of the running prompt, if any. */
+  promptStartedAt?: number;
+  lastPromptMs?: number;
+  totalPromptMs: number;
+  toolCalls: number;
+  toolErrors: number;
+  /** Latest totals reported by pi's `get_session_stats`. */
+  tokens: { input: number; output: number; cacheRead: number; cacheWrite: number; total: number };
+  cost: number;
+}
+
 export interface SessionState {
   id: string;
   cwd: string;
   pi: PiProcess;
   pendingPrompt?: PendingPrompt;
+  queuedPrompts: PendingPrompt[];
+  /**
+   * How a prompt sent while a turn is running reaches pi: as a follow-up that
+   * gets a turn of its own, or steering the running turn. pi's follow-up and
+   * steering modes then decide whether queued messages arrive together.
+   */
+  promptQueueBehavior: "steer" | "followUp";
+  /** Released when the running turn ends; slash commands wait on it. */
+  turnWaiters: Array<() => void>;
+  /** The slash command running or waiting to run; later commands and prompts go after it. */
+  commandQueue?: Promise<void>;
+  /** Slash commands running or waiting to run. */
+  commandsInFlight: number;
   sessionFile?: string;
   toolCallSnapshots: Map<string, { path: string; oldText: string }>;
-  toolCallInputs: Map<string, { summary?: string; locations?: string[]; command?: string }>;
+  toolCallInputs: Map<
+    string,
+    { summary?: string; locations?: string[]; command?: string; terminalId?: string; diff?: ToolCallContent }
+  >;
   modelMap: Map<string, PiModel>;
+  permissionPolicy: Map<string, PermissionPolicy>;
+  terminals: Map<string, TerminalHandle>;
+  /** Set when pi ran the current `/bash` command in a client terminal, which already shows its output. */
+  bashInTerminal?: boolean;
+  /** The controlling client connection: it prompts and answers permission requests. */
+  connectionId?: string;
+  /** Read-only client connections that receive the same update stream. */
+  observerIds: Set<string>;
+  modeId: SessionModeId;
+  plan?: PlanEntry[];
   currentModelId?: string;
   thinkingLevel?: string;
   steeringMode?: "all" | "one-at-a-time";
@@ -34,6 +103,15 @@ export interface SessionState {
   configOptions?: SessionConfigOption[];
   mcpServers?: unknown[];
   title?: string;
+  /** A title set while no pi ran and there was no session file; the next pi applies it. */
+  unsavedTitle?: string;
+  /** Set once a generated title has been asked for, so it is asked for at most once. */
+  titleRequested?: boolean;
+  /** The rows `/sessions` last showed, which session numbers refer to. */
+  lastListing?: { archived: "hide" | "only"; filePaths: string[] };
+  /** The profile pi was spawned with. */
+  profile?: ResolvedProfile;
+  metrics: SessionMetrics;
 }
 
 export type SessionConfigResult = {
@@ -45,6 +45,10 @@ export async function emitInitialSessionInfo(
   if (!info) {
     return;
   }
+  // Keep the stored title rather than inferring one from the next prompt
+  if (info.title && !session.title) {
+    session.title = info.title;
+  }
   emitUpdate({
     sessionId: session.id,
     update: {
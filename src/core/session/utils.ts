@@ -85,7 +85,7 @@ export function expandHome(input: string): string {
   return input;
 }
 
-function truncateTitle(value: string, maxLength: number): string {
+export function truncateTitle(value: string, maxLength: number): string {
   if (value.length <= maxLength) {
     return value;
   }
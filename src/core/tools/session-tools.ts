@@ -1,57 +1,129 @@
 import { readFile } from "node:fs/promises";
-import { readFileSync } from "node:fs";
 import nodePath from "node:path";
-import { logInfo, logWarn } from "../../logger";
-import type { SessionUpdate, ToolCallContent, ToolKind } from "@agentclientprotocol/sdk";
+import { logDebug, logWarn } from "../../logger";
+import type { ClientCapabilities, SessionUpdate, ToolCallContent, ToolKind } from "@agentclientprotocol/sdk";
+import { MAX_OUTPUT_BYTES, type TerminalReply, type TerminalRequest } from "../../pi/extensions/client-terminal";
 import type { PiEvent } from "../../pi/types";
-import type { SessionState } from "../session/types";
+import type { AcpClient, SessionState } from "../session/types";
+import { runInClientTerminal } from "./terminal";
 
 type EmitUpdate = (sessionId: string, update: SessionUpdate) => void;
 
 type ToolStartEvent = Extract<PiEvent, { type: "tool_execution_start" }>;
 type ToolUpdateEvent = Extract<PiEvent, { type: "tool_execution_update" }>;
 type ToolEndEvent = Extract<PiEvent, { type: "tool_execution_end" }>;
+type UiRequestEvent = Extract<PiEvent, { type: "extension_ui_request" }>;
 
 export class SessionToolHandler {
   private readonly emitUpdate: EmitUpdate;
+  private readonly getClient: (session: SessionState) => AcpClient | null;
+  private readonly getClientCapabilities: (session: SessionState) => ClientCapabilities;
 
-  constructor(emitUpdate: EmitUpdate) {
+  constructor(
+    emitUpdate: EmitUpdate,
+    getClient: (session: SessionState) => AcpClient | null,
+    getClientCapabilities: (session: SessionState) => ClientCapabilities
+  ) {
     this.emitUpdate = emitUpdate;
+    this.getClient = getClient;
+    this.getClientCapabilities = getClientCapabilities;
   }
 
-  async handleStart(session: SessionState, event: ToolStartEvent): Promise<void> {
-    logInfo(`tool_start: ${event.toolName} (${event.toolCallId})`);
+  handleStart(session: SessionState, event: ToolStartEvent): void {
+    logDebug(`tool_start: ${event.toolName}`, { sessionId: session.id, toolCallId: event.toolCallId });
     const inputSummary = this.formatToolInput(event.toolName, event.args);
-    const locations = this.extractLocations(event.args);
     session.toolCallInputs.set(event.toolCallId, {
       summary: inputSummary.summary,
       command: inputSummary.command,
-      locations,
+      locations: this.extractLocations(event.args),
+      diff: this.buildArgsDiff(event.args) ?? undefined,
     });
 
-    const title = inputSummary.command ? `${event.toolName}: ${inputSummary.command}` : event.toolName;
-
     this.emitUpdate(session.id, {
       sessionUpdate: "tool_call",
       toolCallId: event.toolCallId,
-      title,
-      kind: this.mapToolKind(event.toolName),
+      ...this.describeToolCall(event.toolName, event.args),
       status: "pending",
       rawInput: event.args,
-      locations: locations?.map((path) => ({ path })),
+    });
+  }
+
+  /**
+   * Read the file a tool call is about to change, while pi still waits on its
+   * permission request: by `tool_execution_start` pi may already have written it.
+   */
+  async snapshotBeforeRun(session: SessionState, toolCallId: string, args: unknown): Promise<void> {
+    const path = this.extractPathFromArgs(args);
+    if (path) {
+      await this.snapshotFile(session, toolCallId, path);
+    }
+  }
+
+  /**
+   * How a tool call is shown before it runs: in its `tool_call` and in the
+   * permission request, which pi makes before it announces the call.
+   */
+  describeToolCall(
+    toolName: string,
+    args: unknown
+  ): { title: string; kind: ToolKind; locations?: { path: string }[]; content?: ToolCallContent[] } {
+    const inputSummary = this.formatToolInput(toolName, args);
+    return {
+      title: inputSummary.command ? `${toolName}: ${inputSummary.command}` : toolName,
+      kind: this.mapToolKind(toolName),
+      locations: this.extractLocations(args)?.map((path) => ({ path })),
       content: inputSummary.summary
         ? [{ type: "content", content: { type: "text", text: inputSummary.summary } }]
         : undefined,
-    });
+    };
+  }
 
-    const path = this.extractPathFromArgs(event.args);
-    if (path) {
-      await this.snapshotFile(session, event.toolCallId, path);
+  /**
+   * Run a command the client-terminal extension hands over, from pi's bash
+   * tool or `/bash`, and reply with its output. Declined when the controlling
+   * client has no terminal, so the extension runs the command itself.
+   */
+  async handleTerminalRequest(session: SessionState, event: UiRequestEvent): Promise<void> {
+    const client = this.getClient(session);
+    const request = parseTerminalRequest(event.prefill);
+    if (!request || !client || !this.getClientCapabilities(session).terminal) {
+      session.pi.send({ type: "extension_ui_response", id: event.id, cancelled: true });
+      return;
+    }
+    const storedInput = request.toolCallId ? session.toolCallInputs.get(request.toolCallId) : undefined;
+    try {
+      const result = await runInClientTerminal(session, client, this.emitUpdate, request.command, {
+        // A tool call pi has not announced gets a tool call of its own
+        toolCallId: storedInput ? request.toolCallId : undefined,
+        timeoutMs: request.timeoutSeconds ? request.timeoutSeconds * 1000 : undefined,
+        onCreate: (terminalId) => {
+          if (storedInput) {
+            storedInput.terminalId = terminalId;
+          } else if (!request.toolCallId) {
+            session.bashInTerminal = true;
+          }
+        },
+      });
+      const output = Buffer.from(result.output);
+      // Only the tail goes back to pi, as its own bash tool keeps it
+      const reply: TerminalReply = {
+        output: output.subarray(Math.max(0, output.length - MAX_OUTPUT_BYTES)).toString("utf8"),
+        exitCode: result.exitCode,
+        truncated: result.truncated || output.length > MAX_OUTPUT_BYTES,
+      };
+      session.pi.send({ type: "extension_ui_response", id: event.id, value: JSON.stringify(reply) });
+    } catch (error) {
+      logWarn(`client terminal failed: ${(error as Error).message}`, { sessionId: session.id });
+      session.pi.send({ type: "extension_ui_response", id: event.id, cancelled: true });
     }
   }
 
   handleUpdate(session: SessionState, event: ToolUpdateEvent): void {
     const storedInput = session.toolCallInputs.get(event.toolCallId);
+    if (storedInput?.terminalId) {
+      // The client streams the terminal itself
+      return;
+    }
     const contentText = this.extractToolContent(event.partialResult);
     const content = this.buildToolCallContent(storedInput?.summary, contentText, undefined, storedInput?.command);
     this.emitUpdate(session.id, {
@@ -62,15 +134,22 @@ export class SessionToolHandler {
     });
   }
 
-  handleEnd(session: SessionState, event: ToolEndEvent): void {
-    logInfo(`tool_end: ${event.toolName} (${event.toolCallId}) isError=${event.isError}`);
+  async handleEnd(session: SessionState, event: ToolEndEvent): Promise<void> {
+    logDebug(`tool_end: ${event.toolName}`, { sessionId: session.id, toolCallId: event.toolCallId, isError: event.isError });
     const storedInput = session.toolCallInputs.get(event.toolCallId);
     session.toolCallInputs.delete(event.toolCallId);
 
     const contentText = this.extractToolContent(event.result);
     const detailsText = this.formatToolDetails(event.result?.details);
-    const diffContent = this.buildDiffContent(session, event.toolCallId);
-    const content = this.buildToolCallContent(storedInput?.summary, contentText, detailsText, storedInput?.command);
+    // Without a snapshot (an ungated tool, or an unreadable file) the arguments still describe the edit
+    const diffContent = session.toolCallSnapshots.has(event.toolCallId)
+      ? await this.buildDiffContent(session, event.toolCallId)
+      : event.isError
+        ? null
+        : storedInput?.diff ?? null;
+    const content: ToolCallContent[] = storedInput?.terminalId
+      ? [{ type: "terminal", terminalId: storedInput.terminalId }]
+      : this.buildToolCallContent(storedInput?.summary, contentText, detailsText, storedInput?.command);
     if (diffContent) {
       content.push(diffContent);
     }
@@ -84,6 +163,74 @@ export class SessionToolHandler {
     });
   }
 
+  /**
+   * Re-emit a tool call from session history. Replays can't snapshot files, so
+   * diffs are rebuilt from the edit/write arguments instead.
+   */
+  replayToolCall(
+    sessionId: string,
+    call: { id: string; name: string; arguments: unknown },
+    result?: { content?: unknown; details?: Record<string, unknown>; isError?: boolean }
+  ): void {
+    const inputSummary = this.formatToolInput(call.name, call.arguments);
+    const locations = this.extractLocations(call.arguments);
+    this.emitUpdate(sessionId, {
+      sessionUpdate: "tool_call",
+      toolCallId: call.id,
+      title: inputSummary.command ? `${call.name}: ${inputSummary.command}` : call.name,
+      kind: this.mapToolKind(call.name),
+      status: "pending",
+      rawInput: call.arguments,
+      locations: locations?.map((path) => ({ path })),
+    });
+    if (!result) {
+      return;
+    }
+
+    const contentText = Array.isArray(result.content)
+      ? this.extractToolContent({ content: result.content.filter(isTextItem) })
+      : undefined;
+    const content = this.buildToolCallContent(
+      inputSummary.summary,
+      contentText,
+      this.formatToolDetails(result.details),
+      inputSummary.command
+    );
+    if (Array.isArray(result.content)) {
+      for (const item of result.content) {
+        if (isImageItem(item)) {
+          content.push({ type: "content", content: { type: "image", data: item.data, mimeType: item.mimeType } });
+        }
+      }
+    }
+    const diff = this.buildArgsDiff(call.arguments);
+    if (diff && !result.isError) {
+      content.push(diff);
+    }
+    this.emitUpdate(sessionId, {
+      sessionUpdate: "tool_call_update",
+      toolCallId: call.id,
+      status: result.isError ? "failed" : "completed",
+      content: content.length > 0 ? content : undefined,
+      rawOutput: result,
+    });
+  }
+
+  private buildArgsDiff(args: unknown): ToolCallContent | null {
+    const path = this.extractPathFromArgs(args);
+    if (!path || !args || typeof args !== "object") {
+      return null;
+    }
+    const candidate = args as { oldText?: unknown; newText?: unknown; content?: unknown };
+    if (typeof candidate.oldText === "string" && typeof candidate.newText === "string") {
+      return { type: "diff", path, oldText: candidate.oldText, newText: candidate.newText };
+    }
+    if (typeof candidate.content === "string") {
+      return { type: "diff", path, oldText: null, newText: candidate.content };
+    }
+    return null;
+  }
+
   private buildToolCallContent(
     inputSummary?: string,
     outputText?: string,
@@ -163,24 +310,27 @@ export class SessionToolHandler {
     // Resolve relative paths against session.cwd
     const absolutePath = filePath.startsWith("/") ? filePath : nodePath.resolve(session.cwd, filePath);
     try {
-      const oldText = await readFile(absolutePath, "utf8");
+      const oldText = await this.readTextFile(session, absolutePath);
       session.toolCallSnapshots.set(toolCallId, { path: absolutePath, oldText });
     } catch {
       // File doesn't exist - skip (new file won't have a diff for "before")
     }
   }
 
-  private buildDiffContent(
+  private async buildDiffContent(
     session: SessionState,
     toolCallId: string
-  ): { type: "diff"; path: string; oldText?: string | null; newText: string } | null {
+  ): Promise<{ type: "diff"; path: string; oldText?: string | null; newText: string } | null> {
     const snapshot = session.toolCallSnapshots.get(toolCallId);
     if (!snapshot) {
       return null;
     }
     session.toolCallSnapshots.delete(toolCallId);
-    const newText = this.readTextFileSync(snapshot.path);
-    if (newText === null) {
+    let newText: string;
+    try {
+      newText = await this.readTextFile(session, snapshot.path);
+    } catch (error) {
+      logWarn(`read failed for ${snapshot.path}: ${(error as Error).message}`);
       return null;
     }
     if (snapshot.oldText === newText) {
@@ -194,13 +344,21 @@ export class SessionToolHandler {
     };
   }
 
-  private readTextFileSync(path: string): string | null {
-    try {
-      return readFileSync(path, "utf8");
-    } catch (error) {
-      logWarn(`read failed for ${path}: ${(error as Error).message}`);
-      return null;
+  /**
+   * Read through the client when it advertises `fs.readTextFile` so diffs reflect
+   * unsaved editor buffers; otherwise read from disk.
+   */
+  private async readTextFile(session: SessionState, path: string): Promise<string> {
+    const client = this.getClient(session);
+    if (client && this.getClientCapabilities(session).fs?.readTextFile) {
+      try {
+        const response = await client.readTextFile({ sessionId: session.id, path });
+        return response.content;
+      } catch (error) {
+        logWarn(`client read failed for ${path}, falling back to disk: ${(error as Error).message}`);
+      }
     }
+    return await readFile(path, "utf8");
   }
 
   private mapToolKind(toolName: string): ToolKind {
@@ -226,3 +384,35 @@ export class SessionToolHandler {
     return "other";
   }
 }
+
+function parseTerminalRequest(prefill?: string): TerminalRequest | null {
+  if (!prefill) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(prefill) as Partial<TerminalRequest>;
+    if (typeof parsed.command !== "string") {
+      return null;
+    }
+    return {
+      toolCallId: typeof parsed.toolCallId === "string" ? parsed.toolCallId : undefined,
+      command: parsed.command,
+      timeoutSeconds: typeof parsed.timeoutSeconds === "number" ? parsed.timeoutSeconds : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function isTextItem(item: unknown): item is { type: "text"; text: string } {
+  return Boolean(item) && typeof item === "object" && (item as { type?: unknown }).type === "text"
+    && typeof (item as { text?: unknown }).text === "string";
+}
+
+function isImageItem(item: unknown): item is { type: "image"; data: string; mimeType: string } {
+  if (!item || typeof item !== "object") {
+    return false;
+  }
+  const candidate = item as { type?: unknown; data?: unknown; mimeType?: unknown };
+  return candidate.type === "image" && typeof candidate.data === "string" && typeof candidate.mimeType === "string";
+}
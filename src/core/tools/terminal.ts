@@ -0,0 +1,96 @@
+import { randomUUID } from "node:crypto";
+import type { SessionUpdate } from "@agentclientprotocol/sdk";
+import { logWarn } from "../../logger";
+import type { AcpClient, SessionState } from "../session/types";
+
+type EmitUpdate = (sessionId: string, update: SessionUpdate) => void;
+
+export type TerminalRunResult = {
+  output: string;
+  exitCode: number | null;
+  signal: string | null;
+  truncated: boolean;
+};
+
+/**
+ * Run a shell command in a client-side terminal and embed it in a tool call so
+ * the client streams its output live. With `toolCallId` the terminal joins a
+ * tool call that is already announced and whose end is reported by pi;
+ * otherwise the run gets a tool call of its own. The terminal is tracked on
+ * the session until it exits so cancellation can kill it.
+ */
+export async function runInClientTerminal(
+  session: SessionState,
+  client: AcpClient,
+  emitUpdate: EmitUpdate,
+  command: string,
+  options: { toolCallId?: string; timeoutMs?: number; onCreate?: (terminalId: string) => void } = {}
+): Promise<TerminalRunResult> {
+  const toolCallId = options.toolCallId ?? `bash:${randomUUID()}`;
+  const terminal = await client.createTerminal({
+    sessionId: session.id,
+    command: process.env.SHELL || "/bin/sh",
+    args: ["-c", command],
+    cwd: session.cwd,
+  });
+  session.terminals.set(toolCallId, terminal);
+  options.onCreate?.(terminal.id);
+
+  const content = [{ type: "terminal" as const, terminalId: terminal.id }];
+  if (options.toolCallId) {
+    emitUpdate(session.id, { sessionUpdate: "tool_call_update", toolCallId, status: "in_progress", content });
+  } else {
+    emitUpdate(session.id, {
+      sessionUpdate: "tool_call",
+      toolCallId,
+      title: `bash: ${command}`,
+      kind: "execute",
+      status: "in_progress",
+      rawInput: { command },
+      content,
+    });
+  }
+
+  const timer = options.timeoutMs
+    ? setTimeout(() => {
+        terminal.kill().catch((error: Error) => logWarn(`terminal kill failed: ${error.message}`));
+      }, options.timeoutMs)
+    : undefined;
+  try {
+    const exit = await terminal.waitForExit();
+    const { output, truncated } = await terminal.currentOutput();
+    const result: TerminalRunResult = {
+      output,
+      exitCode: exit.exitCode ?? null,
+      signal: exit.signal ?? null,
+      truncated,
+    };
+    if (!options.toolCallId) {
+      emitUpdate(session.id, {
+        sessionUpdate: "tool_call_update",
+        toolCallId,
+        status: result.exitCode === 0 ? "completed" : "failed",
+        rawOutput: result,
+      });
+    }
+    return result;
+  } catch (error) {
+    if (!options.toolCallId) {
+      emitUpdate(session.id, { sessionUpdate: "tool_call_update", toolCallId, status: "failed" });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    session.terminals.delete(toolCallId);
+    await terminal.release().catch((error: Error) => logWarn(`terminal release failed: ${error.message}`));
+  }
+}
+
+export async function killSessionTerminals(session: SessionState): Promise<void> {
+  const terminals = [...session.terminals.values()];
+  await Promise.all(
+    terminals.map((terminal) =>
+      terminal.kill().catch((error: Error) => logWarn(`terminal kill failed: ${error.message}`))
+    )
+  );
+}
@@ -1,43 +1,109 @@
-import { AgentSideConnection, ndJsonStream } from "@agentclientprotocol/sdk";
-import { Readable, Writable } from "node:stream";
-import { TransformStream } from "node:stream/web";
-import { AcpAgent } from "./acp/agent";
 import { SessionManager } from "./core/session/manager";
-import { logInfo } from "./logger";
-
-const sessionManager = new SessionManager();
-
-const REQUIRED_MCP_METHODS = new Set(["session/new", "session/load", "session/resume", "session/fork"]);
-
-const input = Writable.toWeb(process.stdout);
-const output = Readable.toWeb(process.stdin);
-const baseStream = ndJsonStream(input, output);
-const stream = {
-  readable: baseStream.readable.pipeThrough(
-    new TransformStream({
-      transform(message, controller) {
-        if (message && typeof message === "object" && "method" in message) {
-          const method = (message as { method?: unknown }).method;
-          if (typeof method === "string") {
-            logInfo(`rpc:${method}`);
-            if (REQUIRED_MCP_METHODS.has(method)) {
-              const params = (message as { params?: Record<string, unknown> | null }).params ?? {};
-              const mcpServers = (params as { mcpServers?: unknown }).mcpServers;
-              if (!Array.isArray(mcpServers)) {
-                (params as { mcpServers: unknown[] }).mcpServers = [];
-              }
-              (message as { params: Record<string, unknown> }).params = params;
-            }
-          }
-        }
-        controller.enqueue(message);
-      },
+import { loadLoggingConfig, loadRetentionPolicy } from "./core/config/profiles";
+import { applyRetention } from "./core/session/retention";
+import {
+  attachConnection,
+  connectStdioToSocket,
+  createServeToken,
+  serveUnixSocket,
+  serveWebSocket,
+  stdioStream,
+} from "./acp/transport";
+import { configureLogger, logError, logWarn } from "./logger";
+import { serveStatus } from "./status";
+import { configureTrace } from "./trace";
+
+const USAGE = `usage:
+  pi-acp                                  ACP over stdio (default)
+  pi-acp serve [--socket <path> | --port <port>]
+                                          share one adapter between clients
+  pi-acp connect [--socket <path>]        bridge stdio to a running serve socket`;
+
+loadLoggingConfig()
+  .then((options) => configureLogger(options))
+  .catch((error: Error) => {
+    configureLogger();
+    logWarn(error.message);
+  });
+
+configureTrace(process.env.PI_ACP_TRACE_FILE);
+
+function parseEnvInt(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  if (!value || value.startsWith("--")) {
+    throw new Error(`${name} needs a value\n${USAGE}`);
+  }
+  return value;
+}
+
+async function createSessionManager(): Promise<SessionManager> {
+  const sessionManager = new SessionManager({
+    pool: {
+      maxLiveProcesses: parseEnvInt("PI_ACP_MAX_PROCESSES"),
+      idleTimeoutMs: parseEnvInt("PI_ACP_IDLE_TIMEOUT_MS"),
+    },
+  });
+  const statusPort = parseEnvInt("PI_ACP_STATUS_PORT");
+  if (statusPort) {
+    await serveStatus(sessionManager, statusPort);
+  }
+  loadRetentionPolicy()
+    .then(async ({ runAtStartup, ...limits }) => {
+      if (runAtStartup) {
+        await applyRetention(limits, { isLive: (filePath) => sessionManager.isSessionFileLive(filePath) });
+      }
     })
-  ),
-  writable: baseStream.writable,
-};
-
-new AgentSideConnection(
-  (connection) => new AcpAgent(connection, sessionManager),
-  stream,
-);
+    .catch((error: Error) => logWarn(`session retention failed: ${error.message}`));
+  return sessionManager;
+}
+
+async function main(args: string[]): Promise<void> {
+  const [command, ...rest] = args;
+  if (!command) {
+    attachConnection(await createSessionManager(), stdioStream());
+    return;
+  }
+  if (command === "serve") {
+    const socket = readFlag(rest, "--socket");
+    const port = readFlag(rest, "--port");
+    if (socket && port) {
+      throw new Error(`--socket and --port are exclusive\n${USAGE}`);
+    }
+    const sessionManager = await createSessionManager();
+    if (port) {
+      const parsed = Number.parseInt(port, 10);
+      if (!Number.isInteger(parsed) || parsed <= 0 || parsed > 65535) {
+        throw new Error(`invalid port: ${port}`);
+      }
+      // Any local process can reach the port, so it is never served without a token
+      const token = process.env.PI_ACP_SERVE_TOKEN || createServeToken();
+      await serveWebSocket(sessionManager, { port: parsed, token });
+    } else {
+      await serveUnixSocket(sessionManager, socket);
+    }
+    return;
+  }
+  if (command === "connect") {
+    await connectStdioToSocket(readFlag(rest, "--socket"));
+    return;
+  }
+  throw new Error(`unknown command: ${command}\n${USAGE}`);
+}
+
+main(process.argv.slice(2)).catch((error: Error) => {
+  logError(error.message);
+  process.exitCode = 1;
+});
@@ -1,11 +1,230 @@
-export function logInfo(message: string): void {
-  process.stderr.write(`[pi-acp] ${message}\n`);
+import { chmodSync, closeSync, fchmodSync, mkdirSync, openSync, renameSync, statSync, writeSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Structured fields attached to a log line, e.g. `{ sessionId }`. */
+export type LogContext = Record<string, unknown>;
+
+export type LoggerOptions = {
+  level?: LogLevel;
+  /** Also write JSON lines to a rotating file under `dir`. */
+  file?: boolean;
+  dir?: string;
+  maxFileBytes?: number;
+  maxFiles?: number;
+};
+
+export const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+export const DEFAULT_LOG_DIR = path.join(os.homedir(), ".pi", "pi-acp", "logs");
+
+const LOG_FILE_NAME = "pi-acp.log";
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+const SECRET_PATTERNS: RegExp[] = [
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\b(?:ghp|gho|ghu|ghs|ghr|github_pat)_[A-Za-z0-9_]{20,}/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/gi,
+];
+// `tokens` is left alone: it counts model tokens in stats and usage. Object
+// values are not masked as a whole; their own keys are checked instead.
+const SECRET_KEY = /(api[_-]?key|token(?!s\b)|secret|password|passwd|authorization|credential|private[_-]?key)/i;
+const SECRET_ASSIGNMENT =
+  /(["']?[A-Za-z0-9_.-]*(?:api[_-]?key|token(?!s\b)|secret|password|passwd|authorization|credential)[A-Za-z0-9_.-]*["']?\s*[:=]\s*(?:(?:Bearer|Basic)\s+)?)("[^"]*"|'[^']*'|[^\s,;{}[\]][^\s,;}]*)/gi;
+
+type FileSink = {
+  fd: number;
+  filePath: string;
+  size: number;
+  maxFileBytes: number;
+  maxFiles: number;
+};
+
+let minLevel: LogLevel = parseLevel(process.env.PI_ACP_LOG_LEVEL) ?? "info";
+let fileSink: FileSink | null = null;
+
+/**
+ * Configure levels and the optional JSON-lines file. Environment variables win
+ * over options so a single run can be debugged without editing the config:
+ * `PI_ACP_LOG_LEVEL` and `PI_ACP_LOG_FILE` (`1`/`0`).
+ */
+export function configureLogger(options: LoggerOptions = {}): void {
+  minLevel = parseLevel(process.env.PI_ACP_LOG_LEVEL) ?? options.level ?? "info";
+  const envFile = process.env.PI_ACP_LOG_FILE;
+  const fileEnabled = envFile !== undefined ? envFile === "1" || envFile === "true" : options.file ?? false;
+
+  if (fileSink) {
+    closeSync(fileSink.fd);
+    fileSink = null;
+  }
+  if (!fileEnabled) {
+    return;
+  }
+  const dir = options.dir ?? DEFAULT_LOG_DIR;
+  try {
+    mkdirSync(dir, { recursive: true });
+    const filePath = path.join(dir, LOG_FILE_NAME);
+    fileSink = {
+      fd: openPrivate(filePath),
+      filePath,
+      size: fileSize(filePath),
+      maxFileBytes: options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES,
+      maxFiles: options.maxFiles ?? DEFAULT_MAX_FILES,
+    };
+  } catch (error) {
+    process.stderr.write(`[pi-acp] WARN: log file disabled: ${(error as Error).message}\n`);
+  }
+}
+
+export function logDebug(message: string, context?: LogContext): void {
+  write("debug", message, context);
+}
+
+export function logInfo(message: string, context?: LogContext): void {
+  write("info", message, context);
+}
+
+export function logWarn(message: string, context?: LogContext): void {
+  write("warn", message, context);
+}
+
+export function logError(message: string, context?: LogContext): void {
+  write("error", message, context);
+}
+
+/** Mask API keys, tokens and other credentials in free text. */
+export function redact(text: string): string {
+  let result = text.replace(SECRET_ASSIGNMENT, (_match, key: string, value: string) => {
+    const quote = value.startsWith("\"") || value.startsWith("'") ? value[0] : "";
+    return `${key}${quote}[REDACTED]${quote}`;
+  });
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, (match) => {
+      const scheme = /^(Bearer|Basic)\s+/i.exec(match);
+      return scheme ? `${scheme[0]}[REDACTED]` : "[REDACTED]";
+    });
+  }
+  return result;
+}
+
+function write(level: LogLevel, message: string, context?: LogContext): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) {
+    return;
+  }
+  const safeMessage = redact(message);
+  const safeContext = context ? redactContext(context) : undefined;
+
+  const prefix = level === "warn" ? "WARN: " : level === "error" ? "ERROR: " : level === "debug" ? "DEBUG: " : "";
+  const fields = safeContext
+    ? Object.entries(safeContext)
+        .map(([key, value]) => ` ${key}=${typeof value === "string" ? value : JSON.stringify(value)}`)
+        .join("")
+    : "";
+  process.stderr.write(`[pi-acp] ${prefix}${safeMessage}${fields}\n`);
+
+  if (fileSink) {
+    const line = `${JSON.stringify({ ts: new Date().toISOString(), level, msg: safeMessage, ...safeContext })}\n`;
+    try {
+      writeToFile(fileSink, line);
+    } catch (error) {
+      process.stderr.write(`[pi-acp] WARN: log file write failed: ${(error as Error).message}\n`);
+    }
+  }
+}
+
+function redactContext(context: LogContext): LogContext {
+  return redactValue(context, undefined, new WeakSet()) as LogContext;
+}
+
+/**
+ * Mask values under credential-like keys and credentials inside strings, at
+ * any depth. Flags (booleans, null) under such keys hold no secret and are kept.
+ */
+function redactValue(value: unknown, key: string | undefined, seen: WeakSet<object>): unknown {
+  if (key !== undefined && SECRET_KEY.test(key) && value !== null && value !== undefined && typeof value !== "boolean") {
+    return "[REDACTED]";
+  }
+  if (typeof value === "string") {
+    return redact(value);
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  // `seen` holds the objects being walked, so only a cycle is cut short
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+  seen.add(value);
+  let result: unknown;
+  const toJSON = (value as { toJSON?: unknown }).toJSON;
+  if (Array.isArray(value)) {
+    result = value.map((entry) => redactValue(entry, undefined, seen));
+  } else if (typeof toJSON === "function") {
+    // Dates and the like log as what they serialise to
+    result = redactValue(toJSON.call(value), undefined, seen);
+  } else {
+    result = Object.fromEntries(
+      Object.entries(value).map(([entryKey, entry]) => [entryKey, redactValue(entry, entryKey, seen)])
+    );
+  }
+  seen.delete(value);
+  return result;
+}
+
+function writeToFile(sink: FileSink, line: string): void {
+  const bytes = Buffer.byteLength(line);
+  if (sink.size > 0 && sink.size + bytes > sink.maxFileBytes) {
+    rotate(sink);
+  }
+  writeSync(sink.fd, line);
+  sink.size += bytes;
+}
+
+function rotate(sink: FileSink): void {
+  closeSync(sink.fd);
+  try {
+    for (let index = sink.maxFiles - 1; index >= 1; index--) {
+      const from = index === 1 ? sink.filePath : `${sink.filePath}.${index - 1}`;
+      try {
+        renameSync(from, `${sink.filePath}.${index}`);
+        chmodSync(`${sink.filePath}.${index}`, 0o600);
+      } catch {
+        // Missing generation, nothing to shift
+      }
+    }
+  } finally {
+    sink.fd = openPrivate(sink.filePath);
+    sink.size = fileSize(sink.filePath);
+  }
+}
+
+/** Append to a log file only the owner can read, whatever mode an earlier run left it with. */
+function openPrivate(filePath: string): number {
+  const fd = openSync(filePath, "a", 0o600);
+  try {
+    fchmodSync(fd, 0o600);
+  } catch (error) {
+    closeSync(fd);
+    throw error;
+  }
+  return fd;
 }
 
-export function logWarn(message: string): void {
-  process.stderr.write(`[pi-acp] WARN: ${message}\n`);
+function fileSize(filePath: string): number {
+  try {
+    return statSync(filePath).size;
+  } catch {
+    return 0;
+  }
 }
 
-export function logError(message: string): void {
-  process.stderr.write(`[pi-acp] ERROR: ${message}\n`);
+function parseLevel(value: unknown): LogLevel | undefined {
+  return typeof value === "string" && (LOG_LEVELS as readonly string[]).includes(value.toLowerCase())
+    ? (value.toLowerCase() as LogLevel)
+    : undefined;
 }
@@ -0,0 +1,167 @@
+/**
+ * Pi extension loaded when the ACP client advertises the `terminal` capability.
+ *
+ * It replaces pi's bash tool and hooks `/bash` (pi's `user_bash` event) so the
+ * command runs in a client terminal, where the user sees it stream live. Pi
+ * still receives the output, so it lands in the conversation as usual. The
+ * adapter is asked through `ctx.ui.editor`: the request is the prefill and the
+ * reply the run's result. If the adapter declines, because the controlling
+ * client has no terminal, the command runs here instead.
+ */
+
+import { spawn } from "node:child_process";
+
+export const TERMINAL_REQUEST_TITLE = "pi-acp:terminal";
+
+/** The tail kept from a command's output, like pi's own bash tool. */
+export const MAX_OUTPUT_BYTES = 50 * 1024;
+
+export type TerminalRequest = {
+  /** Set for the bash tool; `/bash` runs have no tool call. */
+  toolCallId?: string;
+  command: string;
+  timeoutSeconds?: number;
+};
+
+export type TerminalReply = {
+  output: string;
+  exitCode: number | null;
+  truncated: boolean;
+};
+
+type ExtensionContext = {
+  cwd: string;
+  ui: { editor: (title: string, prefill?: string) => Promise<string | undefined> };
+};
+
+type BashOperations = {
+  exec: (
+    command: string,
+    cwd: string,
+    options: { onData: (data: Buffer) => void; signal?: AbortSignal; timeout?: number }
+  ) => Promise<{ exitCode: number | null }>;
+};
+
+type ToolResult = { content: { type: "text"; text: string }[]; details: Record<string, unknown> };
+
+type ExtensionApi = {
+  on: (
+    event: "user_bash",
+    handler: (event: { command: string }, ctx: ExtensionContext) => { operations: BashOperations } | undefined
+  ) => void;
+  registerTool: (tool: {
+    name: string;
+    label: string;
+    description: string;
+    parameters: Record<string, unknown>;
+    execute: (
+      toolCallId: string,
+      params: { command: string; timeout?: number },
+      signal: AbortSignal | undefined,
+      onUpdate: unknown,
+      ctx: ExtensionContext
+    ) => Promise<ToolResult>;
+  }) => void;
+};
+
+export default function clientTerminal(pi: ExtensionApi): void {
+  pi.registerTool({
+    name: "bash",
+    label: "bash",
+    description:
+      "Execute a bash command in the current working directory. Returns stdout and stderr, " +
+      `truncated to the last ${MAX_OUTPUT_BYTES / 1024}KB. Optionally provide a timeout in seconds.`,
+    parameters: {
+      type: "object",
+      properties: {
+        command: { type: "string", description: "Bash command to execute" },
+        timeout: { type: "number", description: "Timeout in seconds (optional, no default timeout)" },
+      },
+      required: ["command"],
+    },
+    async execute(toolCallId, params, signal, _onUpdate, ctx) {
+      const reply = await runCommand(ctx, { toolCallId, command: params.command, timeoutSeconds: params.timeout }, signal);
+      const text = (reply.truncated ? "[output truncated]\n" : "") + (reply.output || "(no output)");
+      if (reply.exitCode !== 0) {
+        // A thrown error is reported to the model as a failed tool result
+        throw new Error(`${text}\n\nCommand exited with code ${reply.exitCode ?? "none"}`);
+      }
+      return { content: [{ type: "text", text }], details: {} };
+    },
+  });
+
+  pi.on("user_bash", (_event, ctx) => ({
+    operations: {
+      exec: async (command, _cwd, options) => {
+        const timeoutSeconds = options.timeout ? options.timeout / 1000 : undefined;
+        const reply = await runCommand(ctx, { command, timeoutSeconds }, options.signal);
+        options.onData(Buffer.from(reply.output));
+        return { exitCode: reply.exitCode };
+      },
+    },
+  }));
+}
+
+async function runCommand(ctx: ExtensionContext, request: TerminalRequest, signal?: AbortSignal): Promise<TerminalReply> {
+  const reply = await ctx.ui.editor(TERMINAL_REQUEST_TITLE, JSON.stringify(request));
+  if (reply !== undefined) {
+    try {
+      return JSON.parse(reply) as TerminalReply;
+    } catch {
+      // Not a reply from the adapter; run it here
+    }
+  }
+  return await runLocally(request, ctx.cwd, signal);
+}
+
+function runLocally(request: TerminalRequest, cwd: string, signal?: AbortSignal): Promise<TerminalReply> {
+  return new Promise((resolve) => {
+    const child = spawn(process.env.SHELL || "/bin/sh", ["-c", request.command], { cwd, detached: true });
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    let truncated = false;
+    const collect = (data: Buffer) => {
+      chunks.push(data);
+      bytes += data.length;
+      while (bytes - chunks[0].length >= MAX_OUTPUT_BYTES) {
+        bytes -= chunks.shift()?.length ?? 0;
+        truncated = true;
+      }
+    };
+    child.stdout.on("data", collect);
+    child.stderr.on("data", collect);
+    const kill = () => {
+      if (child.pid === undefined) {
+        return;
+      }
+      try {
+        // The whole process group, so commands the shell started stop too
+        process.kill(-child.pid, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL");
+      }
+    };
+    const timer = request.timeoutSeconds ? setTimeout(kill, request.timeoutSeconds * 1000) : undefined;
+    signal?.addEventListener("abort", kill, { once: true });
+    let settled = false;
+    const finish = (exitCode: number | null) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", kill);
+      let output = Buffer.concat(chunks);
+      if (output.length > MAX_OUTPUT_BYTES) {
+        output = output.subarray(output.length - MAX_OUTPUT_BYTES);
+        truncated = true;
+      }
+      resolve({ output: output.toString("utf8"), exitCode, truncated });
+    };
+    child.on("error", (error) => {
+      chunks.push(Buffer.from(error.message));
+      finish(null);
+    });
+    child.on("close", (code) => finish(code));
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * Pi extension that holds risky tool calls back until the ACP client allows
+ * them. Pi's `tool_call` hook asks through `ctx.ui.confirm`, which reaches the
+ * adapter as an `extension_ui_request`; it answers with the outcome of
+ * `session/request_permission`. A blocked call fails as a tool result.
+ */
+
+export const PERMISSION_REQUEST_TITLE = "pi-acp:permission";
+
+const GATED_TOOLS = new Set(["bash", "edit", "write", "delete"]);
+
+type ToolCallEvent = {
+  toolName: string;
+  toolCallId: string;
+  input: unknown;
+};
+
+type ExtensionContext = {
+  hasUI: boolean;
+  ui: { confirm: (title: string, message: string) => Promise<boolean> };
+};
+
+type ExtensionApi = {
+  on: (
+    event: "tool_call",
+    handler: (event: ToolCallEvent, ctx: ExtensionContext) => Promise<{ block: true; reason: string } | undefined>
+  ) => void;
+};
+
+export default function permissionGate(pi: ExtensionApi): void {
+  pi.on("tool_call", async (event, ctx) => {
+    if (!GATED_TOOLS.has(event.toolName.toLowerCase()) || !ctx.hasUI) {
+      return undefined;
+    }
+    const message = JSON.stringify({
+      toolCallId: event.toolCallId,
+      toolName: event.toolName,
+      input: event.input,
+    });
+    const allowed = await ctx.ui.confirm(PERMISSION_REQUEST_TITLE, message);
+    if (allowed) {
+      return undefined;
+    }
+    return { block: true, reason: `The user rejected the ${event.toolName} tool call.` };
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * Pi extension that applies ACP session modes. The adapter sends
+ * `/pi-acp-mode <tool,...>` (or `*` for every tool) as a prompt, and the
+ * command sets pi's active tools, so a tool outside the mode is never offered
+ * to the model.
+ */
+
+export const MODE_COMMAND = "pi-acp-mode";
+
+/** Argument of {@link MODE_COMMAND} that restores every tool. */
+export const ALL_TOOLS = "*";
+
+type ExtensionApi = {
+  registerCommand: (
+    name: string,
+    options: { description: string; handler: (args: string) => Promise<void> }
+  ) => void;
+  getActiveTools: () => string[];
+  setActiveTools: (names: string[]) => void;
+};
+
+export default function sessionMode(pi: ExtensionApi): void {
+  // Tools active before the first switch, extension tools included
+  let baseline: string[] | null = null;
+  pi.registerCommand(MODE_COMMAND, {
+    description: "Limit the active tools to a session mode's (used by pi-acp)",
+    handler: async (args) => {
+      baseline ??= pi.getActiveTools();
+      const requested = args.trim();
+      if (requested === ALL_TOOLS) {
+        pi.setActiveTools(baseline);
+        return;
+      }
+      const allowed = new Set(requested.split(",").map((name) => name.trim()));
+      pi.setActiveTools(baseline.filter((name) => allowed.has(name)));
+    },
+  });
+}
+
+export function formatModeCommand(tools: readonly string[] | null): string {
+  return `/${MODE_COMMAND} ${tools ? tools.join(",") : ALL_TOOLS}`;
+}
@@ -0,0 +1,31 @@
+/**
+ * Pi extension that renames the session from inside pi. The adapter sends
+ * `/pi-acp-title <title>` as a prompt, even mid-turn, so the `session_info`
+ * entry joins pi's own entry tree instead of racing its writes to the file.
+ */
+
+export const TITLE_COMMAND = "pi-acp-title";
+
+type ExtensionApi = {
+  registerCommand: (
+    name: string,
+    options: { description: string; handler: (args: string) => Promise<void> }
+  ) => void;
+  setSessionName: (name: string) => void;
+};
+
+export default function sessionTitle(pi: ExtensionApi): void {
+  pi.registerCommand(TITLE_COMMAND, {
+    description: "Name the session (used by pi-acp)",
+    handler: async (args) => {
+      const title = args.trim();
+      if (title) {
+        pi.setSessionName(title);
+      }
+    },
+  });
+}
+
+export function formatTitleCommand(title: string): string {
+  return `/${TITLE_COMMAND} ${title}`;
+}
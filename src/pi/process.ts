@@ -1,43 +1,184 @@
 import { ChildProcessWithoutNullStreams, spawn } from "node:child_process";
 import { createInterface } from "node:readline";
-import { logError, logInfo } from "../logger";
+import { logDebug, logError, logInfo } from "../logger";
+import { traceMessage } from "../trace";
 import {
   PiCommand,
   PiCommandWithId,
+  PiExitInfo,
   PendingRequest,
   PiResponse,
   PiLine,
   PiProcessOptions,
 } from "./types";
 
+const DEFAULT_REQUEST_TIMEOUT_MS = 5000;
+
+type PiBootstrap = (request: (command: PiCommand, timeoutMs?: number) => Promise<PiResponse>) => Promise<void>;
+
+/**
+ * A pi `--mode rpc` child process. The child is spawned lazily on the first
+ * command, and the bootstrap (if set) runs before any command is written so a
+ * fresh child can be pointed at the right session first.
+ */
 export class PiProcess {
-  private readonly proc: ChildProcessWithoutNullStreams;
+  private readonly options: PiProcessOptions;
+  private proc: ChildProcessWithoutNullStreams | null = null;
+  private ready: Promise<void> | null = null;
+  private bootstrap: PiBootstrap | null = null;
   private readonly listeners: Array<(line: PiLine) => void> = [];
   private readonly errorListeners: Array<(error: Error) => void> = [];
+  private readonly exitListeners: Array<(info: PiExitInfo) => void> = [];
+  private readonly spawnListeners: Array<() => void> = [];
+  private stopping = false;
   private readonly pendingRequests = new Map<string, PendingRequest>();
   private requestCounter = 0;
 
   constructor(options: PiProcessOptions) {
-    const args = options.args ?? ["--mode", "rpc"];
-    this.proc = spawn(options.piExecutable ?? "pi", args, {
-      cwd: options.cwd,
-      env: { ...process.env, ...options.env },
+    this.options = options;
+  }
+
+  get running(): boolean {
+    return this.proc !== null;
+  }
+
+  get pid(): number | undefined {
+    return this.proc?.pid;
+  }
+
+  /** Requests still waiting for a response, oldest first. */
+  get pendingRequestInfo(): Array<{ command: string; ageMs: number }> {
+    const now = Date.now();
+    return [...this.pendingRequests.values()].map((pending) => ({ command: pending.command, ageMs: now - pending.sentAt }));
+  }
+
+  setBootstrap(bootstrap: PiBootstrap): void {
+    this.bootstrap = bootstrap;
+  }
+
+  onLine(listener: (line: PiLine) => void): void {
+    this.listeners.push(listener);
+  }
+
+  onError(listener: (error: Error) => void): void {
+    this.errorListeners.push(listener);
+  }
+
+  onExit(listener: (info: PiExitInfo) => void): void {
+    this.exitListeners.push(listener);
+  }
+
+  /** Called each time a child process is spawned, before its bootstrap runs. */
+  onSpawn(listener: () => void): void {
+    this.spawnListeners.push(listener);
+  }
+
+  start(): Promise<void> {
+    if (this.ready) {
+      return this.ready;
+    }
+    this.stopping = false;
+    this.spawnChild();
+    const bootstrap = this.bootstrap;
+    this.ready = bootstrap
+      ? bootstrap((command, timeoutMs) => this.dispatch(command, timeoutMs)).catch((error: Error) => {
+          logError(`pi bootstrap failed: ${error.message}`, this.options.logContext);
+          this.stop();
+          throw error;
+        })
+      : Promise.resolve();
+    return this.ready;
+  }
+
+  send(command: PiCommandWithId): void {
+    this.start()
+      .then(() => this.write(command))
+      .catch((error: Error) => {
+        logError(`pi send failed (${command.type}): ${error.message}`, this.options.logContext);
+        this.errorListeners.forEach((listener) => listener(error));
+      });
+  }
+
+  async request(command: PiCommand, timeoutMs = this.options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS): Promise<PiResponse> {
+    await this.start();
+    return await this.dispatch(command, timeoutMs);
+  }
+
+  stop(): void {
+    if (!this.proc) {
+      return;
+    }
+    this.stopping = true;
+    this.proc.kill();
+  }
+
+  private dispatch(
+    command: PiCommand,
+    timeoutMs = this.options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
+  ): Promise<PiResponse> {
+    const id = `req_${++this.requestCounter}`;
+    const payload: PiCommandWithId = { ...command, id };
+    this.write(payload);
+
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        reject(new Error(`Pi request timed out: ${command.type}`));
+      }, timeoutMs);
+
+      this.pendingRequests.set(id, { command: command.type, sentAt: Date.now(), resolve, reject, timeoutId });
+    });
+  }
+
+  private write(command: PiCommandWithId): void {
+    if (!this.proc) {
+      throw new Error("pi process is not running");
+    }
+    traceMessage("pi", "out", command, this.traceContext());
+    const payload = JSON.stringify(command);
+    this.proc.stdin.write(`${payload}\n`);
+  }
+
+  private traceContext(): { sessionId?: string; cwd: string } {
+    const sessionId = this.options.logContext?.sessionId;
+    return { sessionId: typeof sessionId === "string" ? sessionId : undefined, cwd: this.options.cwd };
+  }
+
+  private spawnChild(): void {
+    const args = this.options.args ?? ["--mode", "rpc"];
+    const proc = spawn(this.options.piExecutable ?? "pi", args, {
+      cwd: this.options.cwd,
+      env: { ...process.env, ...this.options.env },
       stdio: "pipe",
     });
+    this.proc = proc;
+    this.spawnListeners.forEach((listener) => listener());
 
-    this.proc.on("error", (error) => {
-      logError(`pi process error: ${error.message}`);
+    proc.on("error", (error) => {
+      logError(`pi process error: ${error.message}`, this.options.logContext);
+      if (proc.pid === undefined && this.proc === proc) {
+        // Spawn failed; no exit event follows.
+        this.proc = null;
+        this.ready = null;
+        this.rejectAllPending(error);
+      }
       this.errorListeners.forEach((listener) => listener(error));
     });
 
-    this.proc.on("exit", (code, signal) => {
-      logInfo(
-        `pi process exited (code=${code ?? "null"}, signal=${signal ?? "null"})`,
-      );
+    proc.on("exit", (code, signal) => {
+      logInfo(`pi process exited (code=${code ?? "null"}, signal=${signal ?? "null"})`, this.options.logContext);
+      if (this.proc !== proc) {
+        return;
+      }
+      this.proc = null;
+      this.ready = null;
       this.rejectAllPending(new Error("pi process exited"));
+      const info: PiExitInfo = { code, signal, expected: this.stopping };
+      this.stopping = false;
+      this.exitListeners.forEach((listener) => listener(info));
     });
 
-    const rl = createInterface({ input: this.proc.stdout });
+    const rl = createInterface({ input: proc.stdout });
     rl.on("line", (line) => {
       const trimmed = line.trim();
       if (!trimmed) {
@@ -45,6 +186,7 @@ export class PiProcess {
       }
       try {
         const parsed = JSON.parse(trimmed) as PiLine;
+        traceMessage("pi", "in", parsed, this.traceContext());
         if ((parsed as PiResponse).type === "response") {
           const response = parsed as PiResponse;
           if (response.id) {
@@ -58,51 +200,19 @@ export class PiProcess {
         }
         this.listeners.forEach((listener) => listener(parsed));
       } catch (error) {
-        logError(`failed to parse pi rpc line: ${(error as Error).message}`);
+        logError(`failed to parse pi rpc line: ${(error as Error).message}`, this.options.logContext);
       }
     });
 
-    this.proc.stderr.setEncoding("utf8");
-    this.proc.stderr.on("data", (chunk: string) => {
+    proc.stderr.setEncoding("utf8");
+    proc.stderr.on("data", (chunk: string) => {
       const trimmed = chunk.trim();
       if (trimmed.length > 0) {
-        logInfo(`pi stderr: ${trimmed}`);
+        logDebug(`pi stderr: ${trimmed}`, this.options.logContext);
       }
     });
   }
 
-  onLine(listener: (line: PiLine) => void): void {
-    this.listeners.push(listener);
-  }
-
-  onError(listener: (error: Error) => void): void {
-    this.errorListeners.push(listener);
-  }
-
-  send(command: PiCommandWithId): void {
-    const payload = JSON.stringify(command);
-    this.proc.stdin.write(`${payload}\n`);
-  }
-
-  request(command: PiCommand, timeoutMs = 5000): Promise<PiResponse> {
-    const id = `req_${++this.requestCounter}`;
-    const payload: PiCommandWithId = { ...command, id };
-    this.send(payload);
-
-    return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        this.pendingRequests.delete(id);
-        reject(new Error(`Pi request timed out: ${command.type}`));
-      }, timeoutMs);
-
-      this.pendingRequests.set(id, { resolve, reject, timeoutId });
-    });
-  }
-
-  stop(): void {
-    this.proc.kill();
-  }
-
   private rejectAllPending(error: Error): void {
     for (const [id, pending] of this.pendingRequests.entries()) {
       clearTimeout(pending.timeoutId);
@@ -32,7 +32,14 @@ export type PiCommand =
   | { type: "switch_session"; sessionPath: string }
   | { type: "fork"; entryId: string }
   | { type: "get_fork_messages" }
-  | { type: "get_last_assistant_text" };
+  | { type: "get_last_assistant_text" }
+  | {
+      type: "extension_ui_response";
+      id: string;
+      confirmed?: boolean;
+      value?: string;
+      cancelled?: boolean;
+    };
 
 export type PiCommandWithId = PiCommand & { id?: string };
 
@@ -112,6 +119,17 @@ export type PiEvent =
       extensionPath: string;
       event: string;
       error: string;
+    }
+  | {
+      type: "extension_ui_request";
+      id: string;
+      method: string;
+      title?: string;
+      message?: string;
+      options?: string[];
+      /** Initial text of an `editor` dialog. */
+      prefill?: string;
+      timeout?: number;
     };
 
 export interface PiAssistantMessage {
@@ -177,14 +195,26 @@ export interface PiToolResult {
 export type PiLine = PiEvent | PiResponse;
 
 export interface PendingRequest {
+  command: PiCommand["type"];
+  sentAt: number;
   resolve: (response: PiResponse) => void;
   reject: (error: Error) => void;
   timeoutId: NodeJS.Timeout;
 }
 
+export interface PiExitInfo {
+  code: number | null;
+  signal: string | null;
+  /** True when the exit was requested through `stop()`. */
+  expected: boolean;
+}
+
 export interface PiProcessOptions {
   cwd: string;
   piExecutable?: string;
   env?: NodeJS.ProcessEnv;
   args?: string[];
+  requestTimeoutMs?: number;
+  /** Fields attached to every log line about this process, e.g. `{ sessionId }`. */
+  logContext?: Record<string, unknown>;
 }
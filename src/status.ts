@@ -0,0 +1,190 @@
+import http from "node:http";
+import type { SessionManager } from "./core/session/manager";
+import type { AdapterSnapshot, SessionSnapshot } from "./core/session/snapshot";
+import { logInfo, logWarn } from "./logger";
+
+const LOOPBACK_HOST = "127.0.0.1";
+
+/**
+ * Serve a read-only view of the adapter on the loopback interface:
+ * `GET /status` returns JSON and `GET /metrics` the Prometheus text format.
+ * Requests must name the loopback address in `Host`, so a web page that
+ * rebinds its own domain to 127.0.0.1 can't read session paths and titles.
+ */
+export async function serveStatus(sessionManager: SessionManager, port: number): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    if (!isLoopbackHost(req.headers.host, server)) {
+      res.writeHead(403).end();
+      return;
+    }
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (req.method !== "GET") {
+      res.writeHead(405, { allow: "GET" }).end();
+      return;
+    }
+    if (pathname === "/status") {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(`${JSON.stringify(sessionManager.snapshot(), null, 2)}\n`);
+      return;
+    }
+    if (pathname === "/metrics") {
+      res.writeHead(200, { "content-type": "text/plain; version=0.0.4" });
+      res.end(formatPrometheus(sessionManager.snapshot()));
+      return;
+    }
+    res.writeHead(404).end();
+  });
+  server.on("error", (error) => logWarn(`status server error: ${error.message}`));
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, LOOPBACK_HOST, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  // The status server must not keep a stdio adapter alive after its client exits.
+  server.unref();
+  logInfo(`serving status on http://${LOOPBACK_HOST}:${port}`);
+  return server;
+}
+
+function isLoopbackHost(host: string | undefined, server: http.Server): boolean {
+  const address = server.address();
+  const port = address && typeof address === "object" ? address.port : null;
+  return host === `${LOOPBACK_HOST}:${port}` || host === `localhost:${port}`;
+}
+
+type Metric = {
+  name: string;
+  type: "gauge" | "counter";
+  help: string;
+  samples: Array<{ labels?: Record<string, string>; value: number }>;
+};
+
+export function formatPrometheus(snapshot: AdapterSnapshot): string {
+  const perSession = (value: (session: SessionSnapshot) => number | null) =>
+    snapshot.sessions.flatMap((session) => {
+      const sample = value(session);
+      return sample === null ? [] : [{ labels: { session_id: session.sessionId }, value: sample }];
+    });
+  const seconds = (ms: number | null) => (ms === null ? null : ms / 1000);
+
+  const metrics: Metric[] = [
+    { name: "pi_acp_uptime_seconds", type: "gauge", help: "Adapter uptime", samples: [{ value: snapshot.uptimeMs / 1000 }] },
+    { name: "pi_acp_connections", type: "gauge", help: "Connected ACP clients", samples: [{ value: snapshot.connections }] },
+    {
+      name: "pi_acp_sessions",
+      type: "gauge",
+      help: "Live sessions by state",
+      samples: (["prompting", "idle", "stopped"] as const).map((state) => ({
+        labels: { state },
+        value: snapshot.sessions.filter((session) => session.state === state).length,
+      })),
+    },
+    {
+      name: "pi_acp_session_info",
+      type: "gauge",
+      help: "Session metadata; always 1",
+      samples: snapshot.sessions.map((session) => ({
+        labels: {
+          session_id: session.sessionId,
+          cwd: session.cwd,
+          state: session.state,
+          pid: session.pid === null ? "" : String(session.pid),
+          attached: String(session.attached),
+        },
+        value: 1,
+      })),
+    },
+    {
+      name: "pi_acp_session_pending_requests",
+      type: "gauge",
+      help: "RPC requests waiting for a pi response",
+      samples: perSession((session) => session.pendingRequests.length),
+    },
+    {
+      name: "pi_acp_session_oldest_pending_request_seconds",
+      type: "gauge",
+      help: "Age of the oldest unanswered pi request",
+      samples: perSession((session) => seconds(Math.max(0, ...session.pendingRequests.map((pending) => pending.ageMs)))),
+    },
+    {
+      name: "pi_acp_session_queued_prompts",
+      type: "gauge",
+      help: "Prompts queued behind the running turn",
+      samples: perSession((session) => session.queuedPrompts),
+    },
+    {
+      name: "pi_acp_session_prompt_running_seconds",
+      type: "gauge",
+      help: "Duration of the running prompt so far",
+      samples: perSession((session) => seconds(session.promptRunningMs)),
+    },
+    {
+      name: "pi_acp_session_last_prompt_seconds",
+      type: "gauge",
+      help: "Duration of the last finished prompt",
+      samples: perSession((session) => seconds(session.lastPromptMs)),
+    },
+    {
+      name: "pi_acp_session_prompts_total",
+      type: "counter",
+      help: "Prompts sent to pi",
+      samples: perSession((session) => session.prompts),
+    },
+    {
+      name: "pi_acp_session_prompt_seconds_total",
+      type: "counter",
+      help: "Time spent in finished prompts",
+      samples: perSession((session) => session.totalPromptMs / 1000),
+    },
+    {
+      name: "pi_acp_session_tool_calls_total",
+      type: "counter",
+      help: "Finished tool calls",
+      samples: perSession((session) => session.toolCalls),
+    },
+    {
+      name: "pi_acp_session_tool_errors_total",
+      type: "counter",
+      help: "Tool calls that finished with an error",
+      samples: perSession((session) => session.toolErrors),
+    },
+    {
+      name: "pi_acp_session_tokens_total",
+      type: "counter",
+      help: "Tokens reported by pi",
+      samples: snapshot.sessions.flatMap((session) =>
+        (["input", "output", "cacheRead", "cacheWrite"] as const).map((kind) => ({
+          labels: { session_id: session.sessionId, kind: kind.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`) },
+          value: session.tokens[kind],
+        }))
+      ),
+    },
+    {
+      name: "pi_acp_session_cost_dollars_total",
+      type: "counter",
+      help: "Cost reported by pi",
+      samples: perSession((session) => session.cost),
+    },
+  ];
+
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+    for (const sample of metric.samples) {
+      lines.push(`${metric.name}${formatLabels(sample.labels)} ${sample.value}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function formatLabels(labels?: Record<string, string>): string {
+  if (!labels) {
+    return "";
+  }
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return `{${pairs.join(",")}}`;
+}
@@ -0,0 +1,111 @@
+import { closeSync, fchmodSync, mkdirSync, openSync, readFileSync, writeSync } from "node:fs";
+import path from "node:path";
+import { redact } from "./logger";
+
+export type TraceSource = "acp" | "pi";
+
+/** One recorded message. `in` and `out` are relative to the adapter. */
+export type TraceRecord = {
+  ts: string;
+  source: TraceSource;
+  direction: "in" | "out";
+  sessionId?: string;
+  cwd?: string;
+  message: unknown;
+};
+
+let traceFd: number | null = null;
+
+/**
+ * Start recording to `filePath` (appending), or stop when it is empty.
+ * Enabled at startup from `PI_ACP_TRACE_FILE`.
+ */
+export function configureTrace(filePath: string | undefined): void {
+  if (traceFd !== null) {
+    closeSync(traceFd);
+    traceFd = null;
+  }
+  if (!filePath) {
+    return;
+  }
+  try {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    // Traces hold whole prompts and tool output: owner-only, even when appending to an older file
+    const fd = openSync(filePath, "a", 0o600);
+    try {
+      fchmodSync(fd, 0o600);
+    } catch (error) {
+      closeSync(fd);
+      throw error;
+    }
+    traceFd = fd;
+  } catch (error) {
+    process.stderr.write(`[pi-acp] WARN: trace disabled: ${(error as Error).message}\n`);
+  }
+}
+
+export function isTracing(): boolean {
+  return traceFd !== null;
+}
+
+export function traceMessage(
+  source: TraceSource,
+  direction: TraceRecord["direction"],
+  message: unknown,
+  context: { sessionId?: string; cwd?: string } = {}
+): void {
+  if (traceFd === null) {
+    return;
+  }
+  const record: TraceRecord = {
+    ts: new Date().toISOString(),
+    source,
+    direction,
+    sessionId: context.sessionId ?? acpSessionId(message),
+    cwd: context.cwd,
+    message: redactValue(message),
+  };
+  try {
+    writeSync(traceFd, `${JSON.stringify(record)}\n`);
+  } catch (error) {
+    process.stderr.write(`[pi-acp] WARN: trace write failed: ${(error as Error).message}\n`);
+  }
+}
+
+export function readTrace(filePath: string): TraceRecord[] {
+  const records: TraceRecord[] = [];
+  const lines = readFileSync(filePath, "utf8").split("\n");
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      records.push(JSON.parse(line) as TraceRecord);
+    } catch (error) {
+      throw new Error(`${filePath}:${index + 1}: invalid trace line (${(error as Error).message})`);
+    }
+  });
+  return records;
+}
+
+function acpSessionId(message: unknown): string | undefined {
+  if (!message || typeof message !== "object") {
+    return undefined;
+  }
+  const { params, result } = message as { params?: { sessionId?: unknown }; result?: { sessionId?: unknown } };
+  const sessionId = params?.sessionId ?? result?.sessionId;
+  return typeof sessionId === "string" ? sessionId : undefined;
+}
+
+function redactValue(value: unknown): unknown {
+  if (typeof value === "string") {
+    return redact(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, redactValue(entry)]));
+  }
+  return value;
+}